@@ -8,6 +8,7 @@ import { FollowCamera } from '@babylonjs/core/Cameras/followCamera';
 import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder';
 import { TransformNode } from '@babylonjs/core/Meshes/transformNode';
 import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial';
+import { DynamicTexture } from '@babylonjs/core/Materials/Textures/dynamicTexture';
 import { Animation } from '@babylonjs/core/Animations/animation';
 import { EasingFunction, CubicEase } from '@babylonjs/core/Animations/easing';
 import { Animatable } from '@babylonjs/core/Animations/animatable';
@@ -16,12 +17,15 @@ import { Mesh } from '@babylonjs/core/Meshes/mesh';
 import { SceneLoader } from '@babylonjs/core/Loading/sceneLoader';
 import '@babylonjs/loaders/glTF';
 import '@babylonjs/core/Animations/animatable';
-import { TileType } from '../core/constants';
+import { TileType, TILE_ICONS } from '../core/constants';
 import { GameState as GameStateType } from '../core/game-state';
+import { GameRules, DEFAULT_RULES } from '../core/game-rules';
+import { BOARD_PATH, createBoardConnections } from '../core/board-layout';
 import { getCharacterRotation } from '../core/character-config';
+import type { TurnStateInfo } from '../core/turn-states';
 
 /**
- * BoardScene - 3D board with 50 tiles arranged in a linear path on mansion map
+ * BoardScene - 3D board with rules.tileCount tiles (50 by default) arranged in a linear path on mansion map
  * Camera follows the active player character
  * Handles pawn movement animation and tile visualization
  */
@@ -29,10 +33,16 @@ import { getCharacterRotation } from '../core/character-config';
 export class BoardScene {
   public scene: Scene;
   private engine: Engine;
+  private rules: GameRules;
   private camera!: FollowCamera;
   private tiles: any[] = [];
   private tileGlows: any[] = []; // Glow meshes for current tile highlight
   private startTileMarker: any = null; // Special marker for tile 0
+  private starMarker: TransformNode | null = null; // Floating star over gameState.starTileIndex
+  private connections: number[][] = []; // Tile graph (same as the GameState tiles' next), editable in the tile editor
+  private connectionMeshes: Mesh[] = []; // Dotted paths drawn for shortcut connections
+  private junctionArrows: Mesh[] = []; // Direction markers shown at a junction
+  private tileIcons: Map<number, { icon: string; mesh: Mesh }> = new Map(); // Icons on special tiles (shop, warp, ...)
 
   // Multi-pawn support
   private pawns: Map<number, any> = new Map(); // Map playerId -> pawn mesh
@@ -52,6 +62,7 @@ export class BoardScene {
   private currentTileIndex: number = 0; // Track current tile for camera zoom
   private isMapView: boolean = false; // Track if camera is in map view mode
   private mapViewButton: HTMLButtonElement | null = null; // View map button reference
+  private turnStateView: HTMLElement | null = null; // Dev tools turn state visualizer
   private savedCameraTarget: any = null; // Store camera target when switching to map view
   private presetButtons: HTMLButtonElement[] = []; // Camera preset buttons
   private isMoving: boolean = false; // Track if pawn is currently moving
@@ -75,10 +86,12 @@ export class BoardScene {
   private selectedTileIndex: number = -1;
   private tileEditorPanel: HTMLDivElement | null = null;
   private isDraggingTile: boolean = false;
+  private isConnectingTile: boolean = false; // Next tile click adds a connection from the selected tile
   private dragPlane: Mesh | null = null;
 
-  constructor(engine: Engine, onDiceRoll: () => void, onPawnMoveComplete: () => void) {
+  constructor(engine: Engine, onDiceRoll: () => void, onPawnMoveComplete: () => void, rules: GameRules = DEFAULT_RULES) {
     this.engine = engine;
+    this.rules = rules;
     this.onDiceRoll = onDiceRoll;
     this.onPawnMoveComplete = onPawnMoveComplete;
     this.scene = new Scene(engine);
@@ -146,7 +159,7 @@ export class BoardScene {
       // Load mansion map
       this.loadMansionMap();
 
-      // Create 50 tiles in linear path
+      // Create rules.tileCount tiles in linear path
       this.createTiles();
 
       // Pawns are created later via updatePawnPositions
@@ -238,68 +251,18 @@ export class BoardScene {
   }
 
   /**
-   * Create 50 tiles along a custom path through the garden and mansion
+   * Create rules.tileCount tiles along a custom path through the garden and mansion
    */
   private createTiles(): void {
     const tileSize = 0.9;
     const tileHeight = 0.15;
     const tileY = 0.5; // Height above ground
 
-    // Custom tile path - positioned along garden walkways and through mansion
-    const customPath: { x: number, z: number }[] = [
-      { x: -45, z: -40 },
-      { x: -37.8, z: -40 },
-      { x: -30.6, z: -40 },
-      { x: -23.4, z: -40 },
-      { x: -16.2, z: -40 },
-      { x: -9, z: -40 },
-      { x: -1.8, z: -41 },
-      { x: 2.4, z: -46 },
-      { x: 5.6, z: -40 },
-      { x: 5.8, z: -35 },
-      { x: 6, z: -30 },
-      { x: 6.2, z: -25 },
-      { x: 4.4, z: -20 },
-      { x: 4, z: -6.4 },
-      { x: 0, z: -1.2 },
-      { x: 0, z: 6 },
-      { x: 0, z: 13.2 },
-      { x: 7, z: 13.4 },
-      { x: 7, z: 19.6 },
-      { x: 7, z: 26.8 },
-      { x: 7, z: 31 },
-      { x: 15, z: 30.2 },
-      { x: 15, z: 36.4 },
-      { x: 7, z: 35.6 },
-      { x: 0, z: 35.8 },
-      { x: 0, z: 29 },
-      { x: -5.2, z: 24 },
-      { x: -5.4, z: 17 },
-      { x: -11.6, z: 13 },
-      { x: -18.8, z: 13 },
-      { x: -26, z: 13 },
-      { x: -33.2, z: 13 },
-      { x: -38.4, z: 13 },
-      { x: -43.6, z: 13 },
-      { x: -47.8, z: 13 },
-      { x: -54, z: 11 },
-      { x: -54.2, z: 5 },
-      { x: -59.4, z: -1 },
-      { x: -66, z: -2.6 },
-      { x: -74, z: -2.8 },
-      { x: -74, z: -8 },
-      { x: -74, z: -13.2 },
-      { x: -74, z: -17.4 },
-      { x: -74, z: -22.6 },
-      { x: -67, z: -22.8 },
-      { x: -60, z: -25 },
-      { x: -60, z: -13.2 },
-      { x: -53, z: -13.4 },
-      { x: -46, z: -13.6 },
-      { x: -39, z: -13.8 },
-    ];
-
-    const positions = customPath;
+    // Positions come from the shared board layout (src/core/board-layout.ts)
+    if (this.rules.tileCount > BOARD_PATH.length) {
+      console.warn(`[TILE] Board has ${this.rules.tileCount} tiles but the path only has ${BOARD_PATH.length} positions`);
+    }
+    const positions = BOARD_PATH.slice(0, this.rules.tileCount);
 
     // Create tiles at calculated positions
     for (let i = 0; i < positions.length; i++) {
@@ -353,6 +316,39 @@ export class BoardScene {
 
       this.tiles.push(tile);
     }
+
+    this.connections = createBoardConnections(this.tiles.length);
+    this.drawConnections();
+  }
+
+  /**
+   * Draw a dotted path for every connection that isn't the next tile on the main loop
+   */
+  private drawConnections(): void {
+    this.connectionMeshes.forEach(mesh => mesh.dispose());
+    this.connectionMeshes = [];
+
+    const dotMat = new StandardMaterial('connection_dot_mat', this.scene);
+    dotMat.diffuseColor = new Color3(0.95, 0.9, 0.75);
+    dotMat.emissiveColor = new Color3(0.25, 0.22, 0.15);
+
+    this.connections.forEach((nextTiles, from) => {
+      nextTiles.forEach(to => {
+        if (to === (from + 1) % this.tiles.length) return;
+        const start = this.tiles[from].position;
+        const end = this.tiles[to].position;
+        const dots = Math.max(1, Math.floor(Vector3.Distance(start, end) / 1.5));
+        for (let i = 1; i < dots; i++) {
+          const dot = MeshBuilder.CreateCylinder(`connection_${from}_${to}_${i}`, {
+            diameter: 0.25, height: 0.05, tessellation: 12
+          }, this.scene);
+          dot.position = Vector3.Lerp(start, end, i / dots);
+          dot.material = dotMat;
+          dot.isPickable = false;
+          this.connectionMeshes.push(dot);
+        }
+      });
+    });
   }
 
   private createStartTileMarker(x: number, y: number, z: number): void {
@@ -392,12 +388,87 @@ export class BoardScene {
     } catch (e) { }
   }
 
+  /**
+   * Create the floating gold star that marks the star space
+   */
+  private createStarMarker(): TransformNode {
+    const marker = new TransformNode('star_marker', this.scene);
+    const starMat = new StandardMaterial('star_marker_mat', this.scene);
+    starMat.diffuseColor = new Color3(1.0, 0.84, 0.1);
+    starMat.emissiveColor = new Color3(0.45, 0.35, 0.0);
+    const star = MeshBuilder.CreatePolyhedron('star_marker_gem', { type: 1, size: 0.3 }, this.scene);
+    star.position.y = 0.9;
+    star.parent = marker;
+    star.material = starMat;
+    star.isPickable = false;
+    let floatPhase = 0;
+    const floatAnim = () => {
+      floatPhase += 0.04;
+      star.position.y = 0.9 + Math.sin(floatPhase) * 0.1;
+      star.rotation.y += 0.02;
+      requestAnimationFrame(floatAnim);
+    };
+    floatAnim();
+    try {
+      if (this.shadowGenerator) {
+        this.shadowGenerator.addShadowCaster(star);
+      }
+    } catch (e) { }
+    return marker;
+  }
+
+  /**
+   * Move the star marker onto the given tile
+   */
+  updateStarMarker(tileIndex: number): void {
+    const tile = this.tiles[tileIndex];
+    if (!tile) return;
+    if (!this.starMarker) {
+      this.starMarker = this.createStarMarker();
+    }
+    this.starMarker.position = new Vector3(tile.position.x, tile.position.y, tile.position.z);
+  }
+
+  /**
+   * Draw (or remove) the icon lying on top of a tile
+   * The icon is parented to the tile so it follows it in the tile editor
+   */
+  private updateTileIcon(index: number, icon: string | null): void {
+    const existing = this.tileIcons.get(index);
+    if (existing && existing.icon === icon) return;
+    if (existing) {
+      existing.mesh.material?.dispose(true, true);
+      existing.mesh.dispose();
+      this.tileIcons.delete(index);
+    }
+    if (!icon) return;
+
+    const texture = new DynamicTexture(`tile_icon_tex_${index}`, { width: 128, height: 128 }, this.scene, false);
+    texture.hasAlpha = true;
+    texture.drawText(icon, null, 96, '80px sans-serif', 'white', 'transparent', true);
+
+    const material = new StandardMaterial(`tile_icon_mat_${index}`, this.scene);
+    material.diffuseTexture = texture;
+    material.emissiveColor = new Color3(0.6, 0.6, 0.6);
+    material.useAlphaFromDiffuseTexture = true;
+    material.backFaceCulling = false;
+
+    const mesh = MeshBuilder.CreatePlane(`icon_tile_${index}`, { size: 0.6 }, this.scene);
+    mesh.material = material;
+    mesh.rotation.x = Math.PI / 2;
+    mesh.position.y = 0.08; // Just above the tile's top face
+    mesh.parent = this.tiles[index];
+    mesh.isPickable = false;
+    this.tileIcons.set(index, { icon, mesh });
+  }
+
   updateTiles(gameState: GameStateType): void {
+    this.updateStarMarker(gameState.starTileIndex);
     gameState.tiles.forEach((tile, index) => {
       const mesh = this.tiles[index];
       if (!mesh) return;
 
-      // Skip tiles 0 (start) and 49 (finish) - they should stay black
+      // Skip tiles 0 (start) and the last tile (finish) - they should stay black
       if (index === 0 || index === this.tiles.length - 1) return;
 
       const material = mesh.material as StandardMaterial;
@@ -418,7 +489,38 @@ export class BoardScene {
           material.diffuseColor = new Color3(0.4, 0.65, 0.9);
           material.emissiveColor = new Color3(0.05, 0.08, 0.15);
           break;
+        case TileType.SHOP:
+          material.diffuseColor = new Color3(0.65, 0.45, 0.85);
+          material.emissiveColor = new Color3(0.1, 0.06, 0.14);
+          break;
+        case TileType.WARP:
+          material.diffuseColor = new Color3(0.3, 0.8, 0.8);
+          material.emissiveColor = new Color3(0.04, 0.14, 0.14);
+          break;
+        case TileType.SWAP:
+          material.diffuseColor = new Color3(0.95, 0.6, 0.3);
+          material.emissiveColor = new Color3(0.15, 0.08, 0.03);
+          break;
+        case TileType.BANK:
+          material.diffuseColor = new Color3(0.75, 0.65, 0.45);
+          material.emissiveColor = new Color3(0.12, 0.1, 0.05);
+          break;
+        case TileType.EVENT:
+          material.diffuseColor = new Color3(0.9, 0.45, 0.75);
+          material.emissiveColor = new Color3(0.14, 0.05, 0.11);
+          break;
+        case TileType.DUEL:
+          material.diffuseColor = new Color3(0.45, 0.45, 0.55);
+          material.emissiveColor = new Color3(0.06, 0.06, 0.09);
+          break;
+        case TileType.TOLL:
+          material.diffuseColor = new Color3(0.6, 0.6, 0.35);
+          // Claimed toll tiles glow in their owner's color
+          const owner = tile.owner !== undefined ? gameState.players[tile.owner] : undefined;
+          material.emissiveColor = owner ? Color3.FromHexString(owner.color).scale(0.35) : new Color3(0.09, 0.09, 0.05);
+          break;
       }
+      this.updateTileIcon(index, TILE_ICONS[tile.type] ?? null);
     });
     // Highlight active player's pawn location? No, individual pawn highlights handled elsewhere.
     // Just highlights tile glow.
@@ -567,7 +669,7 @@ export class BoardScene {
 
   /**
    * Calculate Y rotation for character in linear path
-   * @param tileIndex - The tile index (0-49)
+   * @param tileIndex - The tile index (0 to rules.tileCount - 1)
    * @returns Y rotation in radians (90 degrees right to match camera at rotationOffset 270)
    */
   private getRotationForTile(tileIndex: number): number {
@@ -786,6 +888,66 @@ export class BoardScene {
     // Highlight logic
   }
 
+  /**
+   * Show a floating marker over each tile the player can continue to and wait for a click on one
+   * Resolves with the chosen tile index
+   */
+  showDirectionChoices(options: number[]): Promise<number> {
+    this.hideDirectionChoices();
+    const canvas = this.engine.getRenderingCanvas();
+    if (!canvas || options.length === 0) {
+      return Promise.resolve(options[0]);
+    }
+
+    const arrowMat = new StandardMaterial('junction_arrow_mat', this.scene);
+    arrowMat.diffuseColor = new Color3(1.0, 0.55, 0.1);
+    arrowMat.emissiveColor = new Color3(0.6, 0.3, 0.0);
+
+    options.forEach(option => {
+      const tile = this.tiles[option];
+      if (!tile) return;
+      // Upside-down cone (like a map pin) so it reads as "go here" from any camera angle
+      const arrow = MeshBuilder.CreateCylinder(`junction_arrow_${option}`, {
+        diameterTop: 0.9, diameterBottom: 0, height: 1.2, tessellation: 4
+      }, this.scene);
+      arrow.position = new Vector3(tile.position.x, tile.position.y + 1.6, tile.position.z);
+      arrow.material = arrowMat;
+      arrow.isPickable = true;
+      this.junctionArrows.push(arrow);
+    });
+
+    let bobPhase = 0;
+    const bobObserver = this.scene.onBeforeRenderObservable.add(() => {
+      bobPhase += 0.08;
+      this.junctionArrows.forEach(arrow => {
+        arrow.position.y = 2.1 + Math.sin(bobPhase) * 0.2;
+        arrow.rotation.y += 0.03;
+      });
+    });
+
+    return new Promise((resolve) => {
+      const onPointerDown = (evt: PointerEvent) => {
+        const pickResult = this.scene.pick(evt.offsetX, evt.offsetY, (mesh) => mesh.name.startsWith('junction_arrow_'));
+        if (!pickResult?.hit || !pickResult.pickedMesh) return;
+
+        const choice = parseInt(pickResult.pickedMesh.name.split('_')[2]);
+        canvas.removeEventListener('pointerdown', onPointerDown);
+        this.scene.onBeforeRenderObservable.remove(bobObserver);
+        this.hideDirectionChoices();
+        resolve(choice);
+      };
+      canvas.addEventListener('pointerdown', onPointerDown);
+    });
+  }
+
+  /**
+   * Remove the junction direction markers
+   */
+  hideDirectionChoices(): void {
+    this.junctionArrows.forEach(arrow => arrow.dispose());
+    this.junctionArrows = [];
+  }
+
   /**
    * Reactivate the board scene (called when switching back from minigame)
    */
@@ -795,9 +957,18 @@ export class BoardScene {
     }
   }
 
-  async movePawn(playerId: number, startPosition: number, steps: number, gameState?: GameStateType): Promise<void> {
+  /**
+   * Walk a pawn along the given tiles (one movePawn segment from the TurnMachine)
+   * onStep runs after each tile is reached - when it returns a promise the pawn waits on the tile until it resolves
+   */
+  async movePawn(
+    playerId: number,
+    path: number[],
+    gameState?: GameStateType,
+    onStep?: (step: number, tileIndex: number) => Promise<void> | void
+  ): Promise<void> {
     const pawn = this.pawns.get(playerId);
-    if (!pawn) return;
+    if (!pawn || path.length === 0) return;
 
     // Create a camera target that follows the pawn during movement
     const cameraFollowTarget = MeshBuilder.CreateBox('cameraFollowTarget', { size: 0.01 }, this.scene);
@@ -849,7 +1020,6 @@ export class BoardScene {
     this.startWalkAnimation(playerId);
 
     return new Promise((resolve) => {
-      let currentPos = startPosition;
       let stepsMoved = 0;
       const numPlayers = this.pawns.size;
       const offset = this.getPawnOffset(playerId, numPlayers);
@@ -862,7 +1032,7 @@ export class BoardScene {
       };
 
       const moveStep = () => {
-        if (stepsMoved >= steps) {
+        if (stepsMoved >= path.length) {
           // Stop walking animation when movement completes
           this.stopWalkAnimation(playerId);
           // Mark movement as complete (enables smooth camera transitions for next player)
@@ -871,16 +1041,17 @@ export class BoardScene {
           cleanupCameraFollow();
 
           // Set camera to lock onto the final tile position (not the disposed follow target)
-          const finalTile = this.tiles[(startPosition + steps) % 50];
+          const finalPosition = path[path.length - 1];
+          const finalTile = this.tiles[finalPosition];
           if (finalTile && this.camera) {
             this.camera.lockedTarget = finalTile;
-            console.log('[CAMERA] Locked to final tile at position', (startPosition + steps) % 50);
+            console.log('[CAMERA] Locked to final tile at position', finalPosition);
           }
 
           resolve();
           return;
         }
-        const nextPos = (currentPos + 1) % 50;
+        const nextPos = path[stepsMoved];
         const nextTileMesh = this.tiles[nextPos];
         if (!nextTileMesh) {
           this.stopWalkAnimation(playerId);
@@ -916,11 +1087,19 @@ export class BoardScene {
 
         pawn.animations = [moveAnim];
 
-        this.scene.beginAnimation(pawn, 0, 60, false, 1, () => {
+        this.scene.beginAnimation(pawn, 0, 60, false, 1, async () => {
+          const step = stepsMoved;
           stepsMoved++;
-          currentPos = nextPos;
           // Keep facing forward (rotation already set to 0)
-          pawn.rotation.y = this.getRotationForTile(currentPos);
+          pawn.rotation.y = this.getRotationForTile(nextPos);
+
+          // Pass-through effect - stand still on the tile while it is shown
+          const pause = onStep?.(step, nextPos);
+          if (pause) {
+            this.stopWalkAnimation(playerId);
+            await pause;
+            if (stepsMoved < path.length) this.startWalkAnimation(playerId);
+          }
           moveStep();
         });
       };
@@ -1049,6 +1228,26 @@ export class BoardScene {
     console.log(`Dev Tools toggled: ${isVisible ? 'OFF' : 'ON'}`);
   }
 
+  /**
+   * Dev tools - show the turn machine's current state, the actions allowed in it
+   * and its outgoing transitions (greyed out while their guard fails)
+   */
+  showTurnStateInfo(info: TurnStateInfo): void {
+    if (!this.turnStateView) return;
+    const transitions = info.transitions.map(transition => `
+      <div style="opacity: ${transition.allowed ? '1' : '0.4'};">
+        ${transition.allowed ? '✅' : '⛔'} → ${transition.to}
+        <span style="color: #95a5a6;">(${transition.description})</span>
+      </div>
+    `).join('');
+    this.turnStateView.innerHTML = `
+      <div style="font-weight: bold; color: #4ade80; font-size: 13px;">${info.state}</div>
+      <div style="color: #bdc3c7; margin-bottom: 6px;">${info.description}</div>
+      <div style="margin-bottom: 6px;">actions: ${info.actions.join(', ') || '-'}</div>
+      ${transitions || '<div style="color: #95a5a6;">no transitions</div>'}
+    `;
+  }
+
   /**
    * Create a debug panel to adjust camera settings in real-time
    */
@@ -1103,19 +1302,19 @@ export class BoardScene {
     };
     debugSection.appendChild(victoryBtn);
 
-    // Test Blue Tile Button
-    const blueTileBtn = document.createElement('button');
-    blueTileBtn.textContent = '🔵 Test Blue Tile (Minigame)';
-    blueTileBtn.style.cssText = 'width: 100%; margin-bottom: 8px; padding: 8px; background: #2980b9; color: white; border: none; border-radius: 6px; cursor: pointer; font-size: 13px; text-align: left;';
-    blueTileBtn.onclick = () => {
-      console.log('Testing Blue Tile minigame');
-      // Dispatch custom event for main.ts to handle
-      window.dispatchEvent(new CustomEvent('testBlueTile'));
-    };
-    debugSection.appendChild(blueTileBtn);
-
     panel.appendChild(debugSection);
 
+    // Turn state visualizer - filled by showTurnStateInfo()
+    const stateTitle = document.createElement('div');
+    stateTitle.textContent = '🔀 Turn State';
+    stateTitle.style.cssText = 'font-weight: bold; margin: 10px 0 5px 0; font-size: 12px; color: #bdc3c7;';
+    panel.appendChild(stateTitle);
+
+    this.turnStateView = document.createElement('div');
+    this.turnStateView.style.cssText = 'margin-bottom: 15px; font-size: 12px; font-family: monospace; direction: ltr;';
+    this.turnStateView.textContent = '-';
+    panel.appendChild(this.turnStateView);
+
     const cameraTitle = document.createElement('div');
     cameraTitle.textContent = '📷 Camera Settings';
     cameraTitle.style.cssText = 'font-weight: bold; margin: 10px 0 5px 0; font-size: 12px; color: #bdc3c7;';
@@ -1344,11 +1543,11 @@ export class BoardScene {
     numInput.type = 'number';
     numInput.id = 'tile-number-input';
     numInput.min = '0';
-    numInput.max = '49';
+    numInput.max = String(this.tiles.length - 1);
     numInput.value = '0';
     numInput.style.cssText = 'width: 60px; height: 30px; text-align: center; background: #2c3e50; color: white; border: 1px solid #3498db; border-radius: 5px; font-size: 14px;';
     numInput.onchange = () => {
-      const index = Math.min(49, Math.max(0, parseInt(numInput.value) || 0));
+      const index = Math.min(this.tiles.length - 1, Math.max(0, parseInt(numInput.value) || 0));
       numInput.value = String(index);
       this.selectTile(index);
     };
@@ -1359,7 +1558,7 @@ export class BoardScene {
     nextBtn.textContent = '▶';
     nextBtn.style.cssText = 'width: 36px; height: 36px; background: #3498db; color: white; border: none; border-radius: 5px; cursor: pointer; font-size: 16px;';
     nextBtn.onclick = () => {
-      const newIndex = Math.min(49, this.selectedTileIndex + 1);
+      const newIndex = Math.min(this.tiles.length - 1, this.selectedTileIndex + 1);
       this.selectTile(newIndex);
       (document.getElementById('tile-number-input') as HTMLInputElement).value = String(newIndex);
     };
@@ -1428,6 +1627,41 @@ export class BoardScene {
     moveSection.appendChild(moveGrid);
     this.tileEditorPanel.appendChild(moveSection);
 
+    // Connections section
+    const connectSection = document.createElement('div');
+    connectSection.style.cssText = 'margin: 10px 0; padding: 10px; background: rgba(255,255,255,0.1); border-radius: 5px;';
+
+    const connectLabel = document.createElement('div');
+    connectLabel.textContent = 'Connections:';
+    connectLabel.style.cssText = 'font-size: 12px; margin-bottom: 8px; color: #f1c40f;';
+    connectSection.appendChild(connectLabel);
+
+    const connectRow = document.createElement('div');
+    connectRow.style.cssText = 'display: flex; gap: 5px;';
+
+    const addConnectionBtn = document.createElement('button');
+    addConnectionBtn.id = 'tile-connect-btn';
+    addConnectionBtn.textContent = '🔗 Add Connection';
+    addConnectionBtn.style.cssText = 'flex: 1; height: 32px; background: #e67e22; color: white; border: none; border-radius: 5px; cursor: pointer; font-size: 12px;';
+    addConnectionBtn.onclick = () => this.startConnectingTile();
+    connectRow.appendChild(addConnectionBtn);
+
+    const clearConnectionsBtn = document.createElement('button');
+    clearConnectionsBtn.textContent = '✂ Clear Extra';
+    clearConnectionsBtn.style.cssText = 'flex: 1; height: 32px; background: #7f8c8d; color: white; border: none; border-radius: 5px; cursor: pointer; font-size: 12px;';
+    clearConnectionsBtn.onclick = () => this.clearTileConnections();
+    connectRow.appendChild(clearConnectionsBtn);
+
+    connectSection.appendChild(connectRow);
+
+    // Feedback from the connection buttons - filled by showConnectionStatus()
+    const connectStatus = document.createElement('div');
+    connectStatus.id = 'tile-connect-status';
+    connectStatus.style.cssText = 'font-size: 11px; margin-top: 6px; min-height: 14px; color: #bdc3c7;';
+    connectSection.appendChild(connectStatus);
+
+    this.tileEditorPanel.appendChild(connectSection);
+
     // Export button
     const exportBtn = document.createElement('button');
     exportBtn.textContent = '📋 Export Path to Clipboard';
@@ -1528,6 +1762,10 @@ export class BoardScene {
         const meshName = pickResult.pickedMesh.name;
         const tileIndex = parseInt(meshName.split('_')[1]);
         console.log(`Clicked on tile ${tileIndex}`);
+        if (this.isConnectingTile) {
+          this.connectSelectedTile(tileIndex);
+          return;
+        }
         this.selectTile(tileIndex);
         this.isDraggingTile = true;
       } else {
@@ -1629,6 +1867,55 @@ export class BoardScene {
     console.log(`Selected tile ${index}`);
   }
 
+  /**
+   * Tile editor - the next tile clicked becomes a connection from the selected tile
+   */
+  private startConnectingTile(): void {
+    if (this.selectedTileIndex < 0) {
+      this.showConnectionStatus('Select a tile before adding a connection', '#e74c3c');
+      return;
+    }
+    this.isConnectingTile = true;
+    const button = document.getElementById('tile-connect-btn');
+    if (button) button.textContent = '👆 Click target tile...';
+    this.showConnectionStatus('');
+  }
+
+  private connectSelectedTile(targetIndex: number): void {
+    this.isConnectingTile = false;
+    const button = document.getElementById('tile-connect-btn');
+    if (button) button.textContent = '🔗 Add Connection';
+
+    const from = this.selectedTileIndex;
+    if (from < 0 || targetIndex === from || this.connections[from].includes(targetIndex)) return;
+
+    this.connections[from].push(targetIndex);
+    this.drawConnections();
+    this.updateTileInfo();
+    this.showConnectionStatus(`Connected tile ${from} → ${targetIndex}`, '#2ecc71');
+  }
+
+  /**
+   * Tile editor - show the result of the last connection action under the connection buttons
+   */
+  private showConnectionStatus(message: string, color: string = '#bdc3c7'): void {
+    const status = document.getElementById('tile-connect-status');
+    if (!status) return;
+    status.textContent = message;
+    status.style.color = color;
+  }
+
+  /**
+   * Tile editor - remove every connection of the selected tile except the main loop one
+   */
+  private clearTileConnections(): void {
+    const from = this.selectedTileIndex;
+    if (from < 0) return;
+    this.connections[from] = [(from + 1) % this.tiles.length];
+    this.drawConnections();
+    this.updateTileInfo();
+  }
+
   /**
    * Center camera view on a specific tile
    */
@@ -1687,7 +1974,8 @@ export class BoardScene {
       infoEl.innerHTML = `
         <strong>Tile ${this.selectedTileIndex}</strong><br>
         X: ${tile.position.x.toFixed(2)}<br>
-        Z: ${tile.position.z.toFixed(2)}
+        Z: ${tile.position.z.toFixed(2)}<br>
+        Next: ${this.connections[this.selectedTileIndex]?.join(', ') ?? '-'}
       `;
     }
   }
@@ -1701,10 +1989,22 @@ export class BoardScene {
 
     const json = JSON.stringify(path, null, 2);
 
+    // Connections other than the main loop are exported as shortcuts
+    const shortcuts: [number, number][] = [];
+    this.connections.forEach((nextTiles, from) => {
+      nextTiles.forEach(to => {
+        if (to !== (from + 1) % this.tiles.length) shortcuts.push([from, to]);
+      });
+    });
+
     // Also create TypeScript array format for direct code paste
-    const tsCode = `// Custom tile path - paste into createTiles()
-const customPath: { x: number, z: number }[] = [
+    const tsCode = `// Board layout - paste into src/core/board-layout.ts
+export const BOARD_PATH: BoardPosition[] = [
 ${path.map(p => `  { x: ${p.x}, z: ${p.z} },`).join('\n')}
+];
+
+export const BOARD_SHORTCUTS: [number, number][] = [
+${shortcuts.map(([from, to]) => `  [${from}, ${to}],`).join('\n')}
 ];`;
 
     navigator.clipboard.writeText(tsCode).then(() => {
@@ -1785,6 +2085,50 @@ ${path.map(p => `  { x: ${p.x}, z: ${p.z} },`).join('\n')}
     });
   }
 
+  /**
+   * Final-turns flourish - the camera pulls back and swings a full circle around the board,
+   * then returns to following the pawn
+   */
+  public playFinalTurnsFlourish(): Promise<void> {
+    if (!this.camera || this.isMapView) return Promise.resolve();
+
+    const savedTarget = this.camera.lockedTarget;
+    const { radius, heightOffset, rotationOffset } = this.camera;
+    const center = MeshBuilder.CreateBox('finalTurnsCameraTarget', { size: 0.01 }, this.scene);
+    center.isVisible = false;
+
+    this.camera.lockedTarget = center;
+    this.camera.radius = 70;
+    this.camera.heightOffset = 45;
+
+    const spinAnim = new Animation(
+      'finalTurnsSpin',
+      'rotationOffset',
+      60,
+      Animation.ANIMATIONTYPE_FLOAT,
+      Animation.ANIMATIONLOOPMODE_CONSTANT
+    );
+    spinAnim.setKeys([
+      { frame: 0, value: rotationOffset },
+      { frame: 180, value: rotationOffset + 360 }
+    ]);
+    const ease = new CubicEase();
+    ease.setEasingMode(EasingFunction.EASINGMODE_EASEINOUT);
+    spinAnim.setEasingFunction(ease);
+
+    this.camera.animations = [spinAnim];
+    return new Promise(resolve => {
+      this.scene.beginAnimation(this.camera, 0, 180, false, 1, () => {
+        this.camera.radius = radius;
+        this.camera.heightOffset = heightOffset;
+        this.camera.rotationOffset = rotationOffset;
+        this.camera.lockedTarget = savedTarget;
+        center.dispose();
+        resolve();
+      });
+    });
+  }
+
   /**
    * Switch camera back to player follow view
    */
@@ -1873,10 +2217,10 @@ ${path.map(p => `  { x: ${p.x}, z: ${p.z} },`).join('\n')}
         targetTileIndex = 0;
         break;
       case 'middle':
-        targetTileIndex = 25;
+        targetTileIndex = Math.floor(this.tiles.length / 2);
         break;
       case 'end':
-        targetTileIndex = 49;
+        targetTileIndex = this.tiles.length - 1;
         break;
     }
 
@@ -5,12 +5,18 @@ import { HemisphericLight } from '@babylonjs/core/Lights/hemisphericLight';
 import { ArcRotateCamera } from '@babylonjs/core/Cameras/arcRotateCamera';
 import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder';
 import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial';
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode';
+import { SceneLoader } from '@babylonjs/core/Loading/sceneLoader';
+import '@babylonjs/loaders/glTF';
 import { MINIGAME_DURATION } from '../core/constants';
+import { getCharacterRotation } from '../core/character-config';
+import type { Player } from '../core/game-state';
+import type { IMinigame3D } from '../minigames/core/types';
 
 /**
- * MinigameScene - simple 3D scene for the minigame
- * The actual game logic is handled by the UI overlay
- * This scene provides a visual backdrop
+ * MinigameScene - 3D scene shown while a minigame plays
+ * Overlay minigames (trivia, tap race...) play in the UI over a simple backdrop;
+ * 3D minigames (IMinigame3D) are mounted into a scene of their own, rendered until the game disposes it in end()
  */
 
 export class MinigameScene {
@@ -20,6 +26,7 @@ export class MinigameScene {
   private onComplete: () => void;
   private startTime: number = 0;
   private isActive: boolean = false;
+  private gameScene: Scene | null = null; // Scene of the mounted 3D minigame
 
   constructor(engine: Engine, onComplete: () => void) {
     this.engine = engine;
@@ -65,6 +72,74 @@ export class MinigameScene {
     }
   }
 
+  /**
+   * Hand a 3D minigame a fresh scene to build itself in - it is rendered instead of the backdrop until the game disposes it
+   * @param players - Who is playing this go (their character models can be loaded into the scene)
+   */
+  async mount(game: IMinigame3D, players: Player[]): Promise<void> {
+    this.gameScene?.dispose();
+    const scene = new Scene(this.engine);
+    this.gameScene = scene;
+    scene.onDisposeObservable.add(() => {
+      if (this.gameScene === scene) this.gameScene = null;
+    });
+
+    await game.mountScene({
+      scene,
+      canvas: this.engine.getRenderingCanvas()!,
+      players,
+      loadCharacter: (modelPath, height) => this.loadCharacter(scene, modelPath, height)
+    });
+  }
+
+  /**
+   * Scene to render - the mounted 3D minigame's, or the backdrop
+   */
+  getRenderScene(): Scene {
+    return this.gameScene ?? this.scene;
+  }
+
+  /**
+   * Load a character model standing on y = 0, scaled to the given height
+   */
+  private loadCharacter(scene: Scene, modelPath: string, height: number): Promise<TransformNode> {
+    const filename = modelPath.split('/').pop() || modelPath;
+    const root = new TransformNode(`minigame_character_${filename}`, scene);
+
+    return SceneLoader.ImportMeshAsync('', '/character/', filename, scene).then(({ meshes }) => {
+      if (meshes.length === 0) throw new Error(`No meshes in ${filename}`);
+
+      // Amy Rose models are already upright - the rest need their configured rotation
+      const isUpright = filename === 'amy_rose.glb' || filename === 'werehog_amy_rose.glb';
+      const model = new TransformNode('minigame_character_model', scene);
+      model.parent = root;
+      if (isUpright) {
+        (meshes.find(m => m.name.includes('__root__')) || meshes[0]).parent = model;
+      } else {
+        meshes.filter(mesh => !mesh.parent).forEach(mesh => { mesh.parent = model; });
+        model.rotation.x = getCharacterRotation(filename);
+      }
+      meshes.forEach(mesh => {
+        if (mesh.material) mesh.material.backFaceCulling = false;
+      });
+
+      // Scale to the height, then put the feet on the ground
+      const bounds = () => {
+        root.computeWorldMatrix(true);
+        model.computeWorldMatrix(true);
+        return model.getHierarchyBoundingVectors(true);
+      };
+      const { min, max } = bounds();
+      const scale = height / Math.max(max.y - min.y, 0.001);
+      model.scaling = new Vector3(scale, scale, scale);
+      model.position.y = -bounds().min.y;
+      return root;
+    }).catch(error => {
+      root.dispose();
+      throw error;
+    });
+  }
+
   /**
    * Start the minigame (triggers UI overlay)
    */
@@ -2,6 +2,7 @@ import { Scene } from '@babylonjs/core/scene';
 import { getEngine } from './engine';
 import { BoardScene } from './board-scene';
 import { MinigameScene } from './minigame-scene';
+import { GameRules } from '../core/game-rules';
 
 /**
  * SceneManager - manages switching between BoardScene and MinigameScene
@@ -26,7 +27,7 @@ export class SceneManager {
   /**
    * Initialize the board scene
    */
-  initBoardScene(onDiceRoll: () => void, onPawnMoveComplete: () => void): void {
+  initBoardScene(onDiceRoll: () => void, onPawnMoveComplete: () => void, rules?: GameRules): void {
     const engine = getEngine();
     
     // Dispose old board scene if exists
@@ -34,14 +35,14 @@ export class SceneManager {
       this.boardScene.scene.dispose();
     }
 
-    this.boardScene = new BoardScene(engine, onDiceRoll, onPawnMoveComplete);
+    this.boardScene = new BoardScene(engine, onDiceRoll, onPawnMoveComplete, rules);
     
     // Always switch to board scene when initializing (will start render loop if needed)
     this.switchToScene(SceneType.BOARD);
   }
 
   /**
-   * Initialize the minigame scene (not used for trivia, but kept for compatibility)
+   * Initialize the minigame scene (a backdrop for overlay minigames, the stage for 3D ones)
    */
   initMinigameScene(onComplete: () => void): void {
     const engine = getEngine();
@@ -51,8 +52,7 @@ export class SceneManager {
       this.minigameScene.scene.dispose();
     }
 
-    // Minigame scene is not used for trivia (UI-based), but create empty scene for compatibility
-    this.minigameScene = new MinigameScene(engine, () => {});
+    this.minigameScene = new MinigameScene(engine, onComplete);
   }
 
   /**
@@ -103,11 +103,15 @@ export class SceneManager {
     // Start/replace render loop
     // This will replace any existing render loop, which is fine since we only want one active scene
     engine.runRenderLoop(() => {
-      if (this.currentScene) {
+      // A mounted 3D minigame replaces the minigame backdrop
+      const scene = this.currentSceneType === SceneType.MINIGAME && this.minigameScene
+        ? this.minigameScene.getRenderScene()
+        : this.currentScene;
+      if (scene) {
         try {
           // Always try to render - scene.isReady() might prevent rendering on first frames
           // The scene will render when ready, but we should start the loop immediately
-          this.currentScene.render();
+          scene.render();
         } catch (error) {
           console.error('Error rendering scene:', error);
           // Don't stop rendering on errors - just log them
@@ -132,16 +136,6 @@ export class SceneManager {
     return this.minigameScene;
   }
 
-  /**
-   * Update pawn position on board
-   */
-  updatePawnPosition(position: number, steps: number): Promise<void> {
-    if (!this.boardScene) {
-      return Promise.resolve();
-    }
-    return this.boardScene.movePawn(position, steps);
-  }
-
   /**
    * Start minigame
    */
@@ -0,0 +1,59 @@
+/**
+ * Minimal `--name=value` argument parsing for the CLI scripts
+ * A bad value prints the error with the script's usage line and exits with status 1
+ */
+
+let usage = '';
+
+/**
+ * Usage line printed with argument errors
+ */
+export function setUsage(text: string): void {
+  usage = text;
+}
+
+/**
+ * Report a bad argument and exit
+ */
+export function usageError(message: string): never {
+  console.error(`Error: ${message}`);
+  if (usage) console.error(`Usage: ${usage}`);
+  process.exit(1);
+}
+
+export function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const arg = process.argv.find(a => a.startsWith(prefix));
+  return arg ? arg.substring(prefix.length) : undefined;
+}
+
+/**
+ * Whole-number argument, at least min and (when given) at most max
+ */
+export function readIntArg(name: string, min: number = -Infinity, max: number = Infinity): number | undefined {
+  const value = readArg(name);
+  if (value === undefined) return undefined;
+  if (!/^-?\d+$/.test(value)) {
+    usageError(`--${name} must be a whole number, got "${value}"`);
+  }
+  const parsed = parseInt(value);
+  if (parsed < min || parsed > max) {
+    usageError(`--${name} must be ${max === Infinity ? `at least ${min}` : `${min}-${max}`}, got ${parsed}`);
+  }
+  return parsed;
+}
+
+/**
+ * Comma-separated fractions in [0, 1], e.g. --accuracy=0.5,0.7
+ */
+export function readFractionListArg(name: string): number[] | undefined {
+  const value = readArg(name);
+  if (value === undefined) return undefined;
+  return value.split(',').map(part => {
+    const parsed = Number(part);
+    if (part.trim() === '' || isNaN(parsed) || parsed < 0 || parsed > 1) {
+      usageError(`--${name} takes numbers from 0 to 1, got "${part}"`);
+    }
+    return parsed;
+  });
+}
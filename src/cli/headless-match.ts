@@ -0,0 +1,48 @@
+import { runHeadlessMatch, createHeadlessPlayers } from '../core/headless-engine';
+import { RULE_PRESETS, RulesPresetId } from '../core/game-rules';
+import { auditLedger } from '../core/points-ledger';
+import { readArg, readIntArg, setUsage, usageError } from './args';
+import { MIN_PLAYERS, MAX_PLAYERS, TEAM_COUNT, TEAM_SIZE } from '../core/constants';
+
+/**
+ * Play a single match headlessly and print the result
+ * Usage: npm run headless -- --players=4 --seed=12345 --rules=quick [--teams]
+ * --players is 2-4 (4 with --teams)
+ */
+
+setUsage('npm run headless -- [--players=4] [--seed=12345] [--rules=standard] [--teams]');
+
+const presetId = (readArg('rules') ?? 'standard') as RulesPresetId;
+const rules = RULE_PRESETS[presetId];
+if (!rules) {
+  usageError(`Unknown rules preset "${presetId}" (expected ${Object.keys(RULE_PRESETS).join(', ')})`);
+}
+
+const playerCount = readIntArg('players', MIN_PLAYERS, MAX_PLAYERS) ?? 4;
+const teams = process.argv.includes('--teams');
+if (teams && playerCount !== TEAM_COUNT * TEAM_SIZE) {
+  usageError(`--teams needs --players=${TEAM_COUNT * TEAM_SIZE}`);
+}
+
+const result = runHeadlessMatch({
+  players: createHeadlessPlayers(playerCount),
+  seed: readIntArg('seed'),
+  rules,
+  teams
+});
+
+console.log(`Seed: ${result.gameState.seed}`);
+console.log(`Actions: ${result.actions}, minigames: ${result.minigames}`);
+console.log(`Ledger: ${result.gameState.ledger.length} entries, ${auditLedger(result.gameState).join('; ') || 'scores match'}`);
+console.log(`Turn order: ${result.gameState.turnOrder.map(index => result.gameState.players[index].name).join(', ')}`);
+result.gameState.bonusAwards.forEach(award => {
+  const winners = award.winners.map(index => result.gameState.players[index].name).join(' & ') || 'nobody';
+  console.log(`Bonus award ${award.award}: ${winners} (${award.value}) +${award.stars} stars`);
+});
+result.standings.forEach((player, index) => {
+  console.log(`${index + 1}. ${player.name} - ${player.stars} stars, ${player.coins} coins, ${player.laps} laps (tile ${player.pawnPosition})`);
+});
+result.teamStandings.forEach((team, index) => {
+  const members = team.members.map(member => result.gameState.players[member].name).join(' & ');
+  console.log(`Team ${index + 1}. ${members} - ${team.stars} stars, ${team.coins} coins`);
+});
@@ -0,0 +1,32 @@
+import { runBalanceSimulation, formatSimulationReport } from '../core/balance-simulator';
+import { RULE_PRESETS, RulesPresetId } from '../core/game-rules';
+import { readArg, readIntArg, readFractionListArg, setUsage, usageError } from './args';
+import { MIN_PLAYERS, MAX_PLAYERS } from '../core/constants';
+
+/**
+ * Board balance simulation
+ * Usage: npm run simulate -- --matches=5000 --players=4 --accuracy=0.5,0.6,0.7,0.8 --seed=1 --rules=standard
+ * A single --accuracy value applies to every seat
+ */
+
+setUsage('npm run simulate -- [--matches=1000] [--players=4] [--accuracy=0.5,0.6,0.7,0.8] [--seed=1] [--rules=standard] [--json]');
+
+const presetId = (readArg('rules') ?? 'standard') as RulesPresetId;
+const rules = RULE_PRESETS[presetId];
+if (!rules) {
+  usageError(`Unknown rules preset "${presetId}" (expected ${Object.keys(RULE_PRESETS).join(', ')})`);
+}
+
+const report = runBalanceSimulation({
+  matches: readIntArg('matches', 1) ?? 1000,
+  playerCount: readIntArg('players', MIN_PLAYERS, MAX_PLAYERS) ?? 4,
+  triviaAccuracy: readFractionListArg('accuracy') ?? [0.5],
+  seed: readIntArg('seed'),
+  rules
+});
+
+if (process.argv.includes('--json')) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(formatSimulationReport(report));
+}
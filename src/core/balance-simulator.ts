@@ -0,0 +1,271 @@
+import { HeadlessGame, createHeadlessPlayers } from './headless-engine';
+import { Player, compareStandings, rankPlayers } from './game-state';
+import { RNG } from './rng';
+import { GameRules, DEFAULT_RULES } from './game-rules';
+import { GameEventBus } from './game-events';
+import { createSoloResults, rankMinigameScores } from './minigame-results';
+
+/**
+ * Board balance simulator
+ * Plays thousands of headless matches with a configurable trivia accuracy per seat
+ * and aggregates win-rate by seat and by turn-order position, star / coin spread, minigame count and lead changes
+ */
+
+export interface SimulationOptions {
+  matches: number;
+  playerCount: number;
+  triviaAccuracy: number[]; // Chance (0-1) of winning a blue-tile minigame, per seat
+  seed?: number; // Base seed - match i is played with seed + i
+  rules?: GameRules; // Defaults to the Standard preset
+}
+
+export interface SeatStats {
+  seat: number; // Seat on the selection screen (the roll-off decides who moves first)
+  triviaAccuracy: number;
+  wins: number; // Shared wins count as a fraction
+  winRate: number;
+  averageStars: number;
+  averageCoins: number;
+  coinsVariance: number;
+}
+
+export interface TurnPositionStats {
+  position: number; // Place in gameState.turnOrder (0 = moves first)
+  wins: number; // Shared wins count as a fraction
+  winRate: number;
+  averageStars: number;
+  averageCoins: number;
+}
+
+export interface SimulationReport {
+  matches: number;
+  playerCount: number;
+  seed: number;
+  rules: GameRules;
+  seats: SeatStats[];
+  turnPositions: TurnPositionStats[]; // Shows first-mover advantage, whatever seat won the roll-off
+  averageStars: number;
+  averageCoins: number;
+  coinsVariance: number; // Over every final coin count of every seat
+  averageWinningMargin: number; // In stars, between the winner and the runner-up
+  averageCoinMargin: number; // In coins, over the matches the winner and runner-up tied on stars (the tie-break)
+  starTieBreaks: number; // Matches decided on coins
+  averageStarsBought: number; // Star purchases on the star space (bonus stars not included)
+  averageLaps: number; // Per player
+  averageMinigames: number;
+  averageLeadChanges: number;
+  tiedMatches: number;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const avg = mean(values);
+  return values.reduce((sum, v) => sum + (v - avg) * (v - avg), 0) / values.length;
+}
+
+/**
+ * Tracks how often the (sole) leader changes during a match
+ * Ties for first keep the previous leader
+ */
+class LeadTracker {
+  private leaderId: number | null = null;
+  changes: number = 0;
+
+  update(players: Player[]): void {
+    const top = rankPlayers(players)[0];
+    const leaders = players.filter(p => compareStandings(p, top) === 0);
+    if (leaders.length !== 1) return;
+
+    const newLeader = leaders[0].id;
+    if (this.leaderId !== null && newLeader !== this.leaderId) {
+      this.changes++;
+    }
+    this.leaderId = newLeader;
+  }
+}
+
+/**
+ * Normalize per-seat accuracy - a single value applies to every seat
+ */
+function resolveAccuracy(accuracy: number[], playerCount: number): number[] {
+  const values: number[] = [];
+  for (let seat = 0; seat < playerCount; seat++) {
+    const value = accuracy[seat] ?? accuracy[accuracy.length - 1] ?? 0.5;
+    values.push(Math.min(1, Math.max(0, value)));
+  }
+  return values;
+}
+
+/**
+ * Run the simulation and build the report
+ */
+export function runBalanceSimulation(options: SimulationOptions): SimulationReport {
+  const baseSeed = options.seed ?? Date.now();
+  const rules = options.rules ?? DEFAULT_RULES;
+  const accuracy = resolveAccuracy(options.triviaAccuracy, options.playerCount);
+  // Separate RNG for trivia outcomes so they never shift the board / dice sequence
+  const triviaRng = new RNG(baseSeed);
+
+  const wins: number[] = accuracy.map(() => 0);
+  const starsBySeat: number[][] = accuracy.map(() => []);
+  const coinsBySeat: number[][] = accuracy.map(() => []);
+  const winsByPosition: number[] = accuracy.map(() => 0);
+  const starsByPosition: number[][] = accuracy.map(() => []);
+  const coinsByPosition: number[][] = accuracy.map(() => []);
+  const starsBought: number[] = [];
+  const laps: number[] = [];
+  const minigameCounts: number[] = [];
+  const leadChanges: number[] = [];
+  const margins: number[] = [];
+  const coinMargins: number[] = [];
+  let tiedMatches = 0;
+
+  for (let match = 0; match < options.matches; match++) {
+    const leadTracker = new LeadTracker();
+    const events = new GameEventBus();
+
+    const game = new HeadlessGame({
+      players: createHeadlessPlayers(options.playerCount),
+      seed: baseSeed + match,
+      rules,
+      resolvers: {
+        resolveMinigame: ({ player, playerIndex }) => createSoloResults(playerIndex, triviaRng.random() < accuracy[player.id]),
+        // Duels rank both players like a round minigame - the more accurate seat wins more often
+        resolveDuel: ({ gameState, playerIndex }, opponentIndex) => rankMinigameScores('1v1', [playerIndex, opponentIndex]
+          .map(index => ({ playerIndex: index, score: triviaRng.random() + accuracy[gameState.players[index].id] }))),
+        // Round minigames rank everyone - a more accurate seat places better on average
+        resolveRoundMinigame: ({ gameState }, round) => {
+          const seatAccuracy = (playerIndex: number) => accuracy[gameState.players[playerIndex].id];
+          return round.format === 'solo'
+            ? createSoloResults(round.participants[0].playerIndex, triviaRng.random() < seatAccuracy(round.participants[0].playerIndex))
+            : rankMinigameScores(round.format, round.participants.map(participant => ({
+              ...participant,
+              score: triviaRng.random() + seatAccuracy(participant.playerIndex)
+            })));
+        }
+      },
+      events
+    });
+    events.on('stateChanged', ({ state }) => {
+      if (state === 'END_TURN') {
+        leadTracker.update(game.getGameState().players);
+      }
+    });
+
+    const result = game.run();
+    const players = result.gameState.players;
+    const winners = players.filter(p => compareStandings(p, result.winner) === 0);
+
+    if (winners.length > 1) tiedMatches++;
+    winners.forEach(p => { wins[p.id] += 1 / winners.length; });
+    players.forEach(p => {
+      starsBySeat[p.id].push(p.stars);
+      coinsBySeat[p.id].push(p.coins);
+    });
+    result.gameState.turnOrder.forEach((playerIndex, position) => {
+      const player = players[playerIndex];
+      if (winners.includes(player)) winsByPosition[position] += 1 / winners.length;
+      starsByPosition[position].push(player.stars);
+      coinsByPosition[position].push(player.coins);
+    });
+
+    const runnerUp = result.standings[1];
+    const starMargin = runnerUp ? result.winner.stars - runnerUp.stars : 0;
+    margins.push(starMargin);
+    if (runnerUp && starMargin === 0) coinMargins.push(result.winner.coins - runnerUp.coins);
+    starsBought.push(result.gameState.ledger
+      .filter(entry => entry.currency === 'stars' && entry.reason === 'star')
+      .reduce((sum, entry) => sum + entry.delta, 0));
+    players.forEach(p => laps.push(p.laps));
+    minigameCounts.push(result.minigames);
+    leadChanges.push(leadTracker.changes);
+  }
+
+  const seats: SeatStats[] = accuracy.map((seatAccuracy, seat) => ({
+    seat,
+    triviaAccuracy: seatAccuracy,
+    wins: wins[seat],
+    winRate: options.matches > 0 ? wins[seat] / options.matches : 0,
+    averageStars: mean(starsBySeat[seat]),
+    averageCoins: mean(coinsBySeat[seat]),
+    coinsVariance: variance(coinsBySeat[seat])
+  }));
+
+  const turnPositions: TurnPositionStats[] = winsByPosition.map((positionWins, position) => ({
+    position,
+    wins: positionWins,
+    winRate: options.matches > 0 ? positionWins / options.matches : 0,
+    averageStars: mean(starsByPosition[position]),
+    averageCoins: mean(coinsByPosition[position])
+  }));
+
+  const allCoins = coinsBySeat.flat();
+
+  return {
+    matches: options.matches,
+    playerCount: options.playerCount,
+    seed: baseSeed,
+    rules,
+    seats,
+    turnPositions,
+    averageStars: mean(starsBySeat.flat()),
+    averageCoins: mean(allCoins),
+    coinsVariance: variance(allCoins),
+    averageWinningMargin: mean(margins),
+    averageCoinMargin: mean(coinMargins),
+    starTieBreaks: coinMargins.length,
+    averageStarsBought: mean(starsBought),
+    averageLaps: mean(laps),
+    averageMinigames: mean(minigameCounts),
+    averageLeadChanges: mean(leadChanges),
+    tiedMatches
+  };
+}
+
+/**
+ * Render the report as a plain-text table
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines: string[] = [];
+
+  lines.push(`Balance simulation - ${report.matches} matches, ${report.playerCount} players, seed ${report.seed}`);
+  lines.push(`Rules: ${report.rules.preset}, ${report.rules.maxTurns} turns, ${report.rules.tileCount} tiles, star cost ${report.rules.starCost}`);
+  lines.push('');
+  lines.push('Seat  Trivia  Win rate  Avg stars  Avg coins  Std dev');
+  report.seats.forEach(seat => {
+    lines.push([
+      `${seat.seat + 1}`.padEnd(6),
+      pct(seat.triviaAccuracy).padEnd(8),
+      pct(seat.winRate).padEnd(10),
+      seat.averageStars.toFixed(2).padEnd(11),
+      seat.averageCoins.toFixed(2).padEnd(11),
+      Math.sqrt(seat.coinsVariance).toFixed(2)
+    ].join(''));
+  });
+  lines.push('');
+  lines.push('Turn  Win rate  Avg stars  Avg coins');
+  report.turnPositions.forEach(position => {
+    lines.push([
+      `${position.position + 1}`.padEnd(6),
+      pct(position.winRate).padEnd(10),
+      position.averageStars.toFixed(2).padEnd(11),
+      position.averageCoins.toFixed(2)
+    ].join(''));
+  });
+  lines.push('');
+  lines.push(`Coin variance:       ${report.coinsVariance.toFixed(2)} (std dev ${Math.sqrt(report.coinsVariance).toFixed(2)}, mean ${report.averageCoins.toFixed(2)})`);
+  lines.push(`Avg stars bought:    ${report.averageStarsBought.toFixed(2)} per match (players end with ${report.averageStars.toFixed(2)} stars, bonus stars included)`);
+  lines.push(`Avg laps:            ${report.averageLaps.toFixed(2)} per player`);
+  lines.push(`Avg winning margin:  ${report.averageWinningMargin.toFixed(2)} stars (${report.starTieBreaks} matches tied on stars, won by ${report.averageCoinMargin.toFixed(2)} coins on average)`);
+  lines.push(`Avg minigames:       ${report.averageMinigames.toFixed(2)} per match`);
+  lines.push(`Avg lead changes:    ${report.averageLeadChanges.toFixed(2)} per match`);
+  lines.push(`Tied matches:        ${report.tiedMatches} (${pct(report.matches > 0 ? report.tiedMatches / report.matches : 0)})`);
+
+  return lines.join('\n');
+}
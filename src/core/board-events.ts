@@ -0,0 +1,48 @@
+/**
+ * Board events - triggered by landing on an event tile, affect every player (or the whole board)
+ * Picked from the 'events' RNG stream and applied by TurnMachine.resolveTile
+ */
+
+export enum BoardEventType {
+  COIN_RAIN = 'coin_rain', // Every player gains coins
+  TAX = 'tax', // Every player pays into the bank pot
+  STAR_MOVE = 'star_move', // The star relocates
+  PAWN_SHUFFLE = 'pawn_shuffle' // All pawns trade places at random
+}
+
+export const COIN_RAIN_AMOUNT = 3; // Coins every player gains
+export const TAX_AMOUNT = 3; // Coins every player pays into the bank pot
+
+export interface BoardEventDefinition {
+  type: BoardEventType;
+  name: string; // Arabic display name
+  icon: string;
+  description: string;
+}
+
+export const BOARD_EVENTS: Record<BoardEventType, BoardEventDefinition> = {
+  [BoardEventType.COIN_RAIN]: {
+    type: BoardEventType.COIN_RAIN,
+    name: 'مطر العملات',
+    icon: '🌧️',
+    description: `كل اللاعبين يحصلون على ${COIN_RAIN_AMOUNT} عملات`
+  },
+  [BoardEventType.TAX]: {
+    type: BoardEventType.TAX,
+    name: 'الضريبة',
+    icon: '💸',
+    description: `كل اللاعبين يدفعون ${TAX_AMOUNT} عملات للبنك`
+  },
+  [BoardEventType.STAR_MOVE]: {
+    type: BoardEventType.STAR_MOVE,
+    name: 'النجمة تنتقل',
+    icon: '⭐',
+    description: 'النجمة انتقلت إلى مربع جديد'
+  },
+  [BoardEventType.PAWN_SHUFFLE]: {
+    type: BoardEventType.PAWN_SHUFFLE,
+    name: 'خلط المواقع',
+    icon: '🔀',
+    description: 'كل اللاعبين تبادلوا أماكنهم'
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Board layout - where the tiles sit on the mansion map and how they connect
+ * Shared by the rules (tile graph in GameState) and BoardScene (tile meshes)
+ */
+
+export interface BoardPosition {
+  x: number;
+  z: number;
+}
+
+/** Tile positions along the garden walkways and through the mansion (main loop order) */
+export const BOARD_PATH: BoardPosition[] = [
+  { x: -45, z: -40 },
+  { x: -37.8, z: -40 },
+  { x: -30.6, z: -40 },
+  { x: -23.4, z: -40 },
+  { x: -16.2, z: -40 },
+  { x: -9, z: -40 },
+  { x: -1.8, z: -41 },
+  { x: 2.4, z: -46 },
+  { x: 5.6, z: -40 },
+  { x: 5.8, z: -35 },
+  { x: 6, z: -30 },
+  { x: 6.2, z: -25 },
+  { x: 4.4, z: -20 },
+  { x: 4, z: -6.4 },
+  { x: 0, z: -1.2 },
+  { x: 0, z: 6 },
+  { x: 0, z: 13.2 },
+  { x: 7, z: 13.4 },
+  { x: 7, z: 19.6 },
+  { x: 7, z: 26.8 },
+  { x: 7, z: 31 },
+  { x: 15, z: 30.2 },
+  { x: 15, z: 36.4 },
+  { x: 7, z: 35.6 },
+  { x: 0, z: 35.8 },
+  { x: 0, z: 29 },
+  { x: -5.2, z: 24 },
+  { x: -5.4, z: 17 },
+  { x: -11.6, z: 13 },
+  { x: -18.8, z: 13 },
+  { x: -26, z: 13 },
+  { x: -33.2, z: 13 },
+  { x: -38.4, z: 13 },
+  { x: -43.6, z: 13 },
+  { x: -47.8, z: 13 },
+  { x: -54, z: 11 },
+  { x: -54.2, z: 5 },
+  { x: -59.4, z: -1 },
+  { x: -66, z: -2.6 },
+  { x: -74, z: -2.8 },
+  { x: -74, z: -8 },
+  { x: -74, z: -13.2 },
+  { x: -74, z: -17.4 },
+  { x: -74, z: -22.6 },
+  { x: -67, z: -22.8 },
+  { x: -60, z: -25 },
+  { x: -60, z: -13.2 },
+  { x: -53, z: -13.4 },
+  { x: -46, z: -13.6 },
+  { x: -39, z: -13.8 },
+];
+
+/**
+ * Extra connections on top of the main loop (from → to)
+ * Every "from" tile becomes a junction where the player picks a direction
+ */
+export const BOARD_SHORTCUTS: [number, number][] = [
+  [16, 27] // Cut across the garden instead of walking round the fountain loop
+];
+
+/**
+ * Outgoing connections per tile: the main loop (i → i + 1, last → 0) plus any shortcuts on the board
+ */
+export function createBoardConnections(tileCount: number, shortcuts: [number, number][] = BOARD_SHORTCUTS): number[][] {
+  const connections: number[][] = [];
+  for (let i = 0; i < tileCount; i++) {
+    connections.push([(i + 1) % tileCount]);
+  }
+  shortcuts.forEach(([from, to]) => {
+    if (from < tileCount && to < tileCount && !connections[from].includes(to)) {
+      connections[from].push(to);
+    }
+  });
+  return connections;
+}
+
+/**
+ * Tiles reachable in one step - forward follows the connections, backward (reverse item) walks them the other way
+ */
+export function getNextTiles(connections: number[][], index: number, direction: 1 | -1 = 1): number[] {
+  if (direction === 1) {
+    return connections[index] ?? [];
+  }
+  const previous: number[] = [];
+  connections.forEach((next, from) => {
+    if (next.includes(index)) previous.push(from);
+  });
+  return previous;
+}
@@ -0,0 +1,76 @@
+/**
+ * End-of-game bonus awards - stars handed out for per-player stats once the last turn is over,
+ * before the final ranking (so they can change the winner)
+ * Which awards are in play and how many stars each is worth come from the game rules
+ */
+
+/** Stats tracked for every player during the match (GameState.playerStats, same order as players) */
+export interface PlayerStats {
+  minigamesWon: number; // Blue-tile and round minigames won (rank 1) and duels won - trivia included
+  redTiles: number; // Red tiles landed on
+  distance: number; // Tiles walked (warps and swaps don't count)
+}
+
+export function createPlayerStats(): PlayerStats {
+  return { minigamesWon: 0, redTiles: 0, distance: 0 };
+}
+
+export enum BonusAwardType {
+  MINIGAMES = 'minigames', // Most minigames won
+  RED_TILES = 'red_tiles', // Most red tiles landed on
+  DISTANCE = 'distance' // Most tiles walked
+}
+
+export interface BonusAwardDefinition {
+  type: BonusAwardType;
+  name: string; // Arabic display name
+  icon: string;
+  description: string;
+  stat: keyof PlayerStats;
+}
+
+export const BONUS_AWARDS: Record<BonusAwardType, BonusAwardDefinition> = {
+  [BonusAwardType.MINIGAMES]: {
+    type: BonusAwardType.MINIGAMES,
+    name: 'نجم الألعاب',
+    icon: '🎮',
+    description: 'أكثر فوز في الألعاب الصغيرة',
+    stat: 'minigamesWon'
+  },
+  [BonusAwardType.RED_TILES]: {
+    type: BonusAwardType.RED_TILES,
+    name: 'نجم سوء الحظ',
+    icon: '🟥',
+    description: 'أكثر وقوف على المربعات الحمراء',
+    stat: 'redTiles'
+  },
+  [BonusAwardType.DISTANCE]: {
+    type: BonusAwardType.DISTANCE,
+    name: 'نجم المسافة',
+    icon: '👟',
+    description: 'أطول مسافة مقطوعة',
+    stat: 'distance'
+  }
+};
+
+export const BONUS_AWARD_TYPES: BonusAwardType[] = Object.values(BonusAwardType);
+
+/** Outcome of one award (GameState.bonusAwards, in the order they were handed out) */
+export interface BonusAwardResult {
+  award: BonusAwardType;
+  winners: number[]; // Player indices - everyone tied for the best value (none if nobody scored), one per team in team mode
+  value: number; // Winning stat value
+  stars: number; // Stars given to each winner
+}
+
+/**
+ * Decide an award - every player tied for the highest (non-zero) stat wins it
+ */
+export function decideBonusAward(award: BonusAwardType, playerStats: PlayerStats[], stars: number): BonusAwardResult {
+  const stat = BONUS_AWARDS[award].stat;
+  const value = Math.max(0, ...playerStats.map(stats => stats[stat]));
+  const winners = value > 0
+    ? playerStats.map((_, index) => index).filter(index => playerStats[index][stat] === value)
+    : [];
+  return { award, winners, value, stars };
+}
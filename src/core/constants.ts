@@ -8,35 +8,70 @@ export const DICE_MIN = 1;
 export const DICE_MAX = 6;
 
 // Tile type distribution (must sum to 50)
-export const GREEN_TILE_COUNT = 20;  // +3 points
-export const RED_TILE_COUNT = 15;    // -3 points
-export const YELLOW_TILE_COUNT = 10; // Random: +5, +2, -2, -5
+// Rebalanced from the original 20 green / 15 red / 10 yellow / 5 blue to fit the shop and special tiles on the same board:
+// fewer plain coin tiles, so more of a match's coins come from minigames, laps, banks and tolls
+export const GREEN_TILE_COUNT = 12;  // +3 points
+export const RED_TILE_COUNT = 10;    // -3 points
+export const YELLOW_TILE_COUNT = 8;  // Random: +5, +2, -2, -5
 export const BLUE_TILE_COUNT = 5;    // Minigame
+export const SHOP_TILE_COUNT = 3;    // Item shop
+export const WARP_TILE_COUNT = 2;    // Teleport to the paired warp tile
+export const SWAP_TILE_COUNT = 2;    // Swap places with a chosen opponent
+export const BANK_TILE_COUNT = 2;    // Passing pays into the bank, landing collects it
+export const EVENT_TILE_COUNT = 2;   // Board-wide event
+export const DUEL_TILE_COUNT = 2;    // Minigame duel against a chosen opponent
+export const TOLL_TILE_COUNT = 2;    // Landing claims it, other players pay the owner when passing
 
 export const TILE_REWARDS = {
   GREEN: 3,
   RED: -3,
-  YELLOW_OPTIONS: [5, 2, -2, -5] as const
+  YELLOW_OPTIONS: [5, 2, -2, -5] as const,
+  BANK_FEE: 2, // Paid into the bank pot when passing a bank tile
+  DUEL_STAKE: 5, // Taken from the duel loser by the winner
+  TOLL_FEE: 3, // Paid to a toll tile's owner when passing it
+  LAP_BONUS: 5, // Paid for every completed lap (crossing the start tile)
+  BONUS_AWARD_STARS: 1, // Stars for each end-of-game bonus award
+  MINIGAME_WIN: 10, // Paid for winning a solo, 1v1, 1v3 or 2v2 minigame
+  MINIGAME_PLACEMENTS: [10, 5, 2, 0] as const // Paid by rank in free-for-all minigames (1st, 2nd, ...)
 };
 
+export const STAR_COST = 10; // Coins needed to buy the star
+
+// Seats the selection screen offers (and the match supports)
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+// 2v2 team mode - seats alternate between the teams (seat 1 & 3 vs seat 2 & 4)
+export const TEAM_COUNT = 2;
+export const TEAM_SIZE = 2; // Team mode needs exactly TEAM_COUNT * TEAM_SIZE players
+export const TEAM_NAMES = ['الفريق الأحمر', 'الفريق الأزرق'];
+export const TEAM_COLORS = ['#E63946', '#1D7FD8'];
+
 export const MINIGAME_DURATION = 15000; // 15 seconds for trivia minigame
-export const MINIGAME_MAX_POINTS = 10; // Maximum points from minigame
+export const MINIGAME_REPEAT_WINDOW = 1; // The last N minigames picked (blue tile or round) aren't picked again while another fits
 export const TRIVIA_TIME_PER_QUESTION = 15000; // 15 seconds per question
 
 export enum TileType {
   GREEN = 'green',
   RED = 'red',
   YELLOW = 'yellow',
-  BLUE = 'blue'
-}
-
-export enum GameState {
-  TURN_START = 'TURN_START',
-  ROLL_DICE = 'ROLL_DICE',
-  MOVE = 'MOVE',
-  RESOLVE_TILE = 'RESOLVE_TILE',
-  OPTIONAL_MINIGAME = 'OPTIONAL_MINIGAME',
-  END_TURN = 'END_TURN',
-  GAME_END = 'GAME_END'
+  BLUE = 'blue',
+  SHOP = 'shop',
+  WARP = 'warp',
+  SWAP = 'swap',
+  BANK = 'bank',
+  EVENT = 'event',
+  DUEL = 'duel',
+  TOLL = 'toll'
 }
 
+/** Icons drawn on special tiles and used in tile messages */
+export const TILE_ICONS: Partial<Record<TileType, string>> = {
+  [TileType.SHOP]: '🛒',
+  [TileType.WARP]: '🌀',
+  [TileType.SWAP]: '🔁',
+  [TileType.BANK]: '🏦',
+  [TileType.EVENT]: '❗',
+  [TileType.DUEL]: '🗡',
+  [TileType.TOLL]: '🚧'
+};
@@ -0,0 +1,192 @@
+import { GameState, Player } from './game-state';
+import { RNG } from './rng';
+import { TileType, DICE_MIN, DICE_MAX, TRIVIA_TIME_PER_QUESTION } from './constants';
+import { ItemType, ITEMS, MAX_ITEMS, STEAL_AMOUNT } from './items';
+import { getNextTiles } from './board-layout';
+import type { ItemChoice } from './headless-engine';
+
+/**
+ * CPU players - decisions and trivia answers for seats without a human
+ * Game feeds these into the same TurnMachine calls a human's clicks make.
+ * Randomness comes from the game's 'cpu' RNG stream, so it never shifts dice / tiles and is saved with the game
+ */
+
+export type CpuDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface CpuProfile {
+  label: string; // Arabic display name
+  accuracy: number; // Chance of knowing the trivia answer
+  responseTime: [number, number]; // Range (ms) of the time taken to answer
+  smartChoices: number; // Chance of making the best decision instead of a random one
+}
+
+export const CPU_PROFILES: Record<CpuDifficulty, CpuProfile> = {
+  easy: { label: 'سهل', accuracy: 0.4, responseTime: [5000, 16000], smartChoices: 0.3 },
+  normal: { label: 'متوسط', accuracy: 0.65, responseTime: [3000, 11000], smartChoices: 0.6 },
+  hard: { label: 'صعب', accuracy: 0.85, responseTime: [1500, 6000], smartChoices: 0.9 }
+};
+
+export const CPU_DIFFICULTIES: CpuDifficulty[] = ['easy', 'normal', 'hard'];
+
+export const CPU_ACTION_DELAY = 1200; // ms a CPU "thinks" before rolling / choosing
+
+/** How a CPU answers a trivia question */
+export interface TriviaAnswer {
+  correct: boolean;
+  delay: number; // ms before answering - past TRIVIA_TIME_PER_QUESTION the question times out
+}
+
+/** Items in the order a smart CPU prefers to buy them */
+const SHOP_PREFERENCE: ItemType[] = [
+  ItemType.GOLDEN_DICE,
+  ItemType.DOUBLE_DICE,
+  ItemType.STEAL,
+  ItemType.SHIELD,
+  ItemType.REVERSE
+];
+
+export class CpuPlayer {
+  private gameState: GameState;
+  private rng: RNG;
+
+  constructor(gameState: GameState) {
+    this.gameState = gameState;
+    this.rng = gameState.rng.stream('cpu');
+  }
+
+  /**
+   * Item to use before rolling (null = just roll)
+   */
+  chooseItem(player: Player): ItemChoice | null {
+    if (player.items.length === 0) return null;
+
+    if (!this.isSmart(player)) {
+      if (this.rng.random() < 0.7) return null;
+      const item = this.rng.pick(player.items);
+      return item === ItemType.GOLDEN_DICE
+        ? { item, options: { diceValue: this.rng.randomInt(DICE_MIN, DICE_MAX) } }
+        : { item };
+    }
+
+    // Head for the star when it is within reach and the player can pay for it
+    if (player.coins >= this.gameState.rules.starCost) {
+      const ahead = this.distanceTo(player.pawnPosition, this.gameState.starTileIndex, 1);
+      const behind = this.distanceTo(player.pawnPosition, this.gameState.starTileIndex, -1);
+      if (player.items.includes(ItemType.GOLDEN_DICE) && ahead >= DICE_MIN && ahead <= DICE_MAX) {
+        return { item: ItemType.GOLDEN_DICE, options: { diceValue: ahead } };
+      }
+      if (player.items.includes(ItemType.DOUBLE_DICE) && ahead > DICE_MAX && ahead <= DICE_MAX * 2) {
+        return { item: ItemType.DOUBLE_DICE };
+      }
+      if (player.items.includes(ItemType.REVERSE) && behind <= DICE_MAX && ahead > DICE_MAX) {
+        return { item: ItemType.REVERSE };
+      }
+    }
+
+    const richest = Math.max(0, ...this.gameState.players.filter(other => other !== player).map(other => other.coins));
+    if (player.items.includes(ItemType.STEAL) && richest >= STEAL_AMOUNT) {
+      return { item: ItemType.STEAL };
+    }
+    return null;
+  }
+
+  /**
+   * Item to buy on a shop tile (null = leave)
+   * A smart CPU keeps enough coins for the star
+   */
+  chooseShopItem(player: Player): ItemType | null {
+    if (player.items.length >= MAX_ITEMS) return null;
+    const affordable = SHOP_PREFERENCE.filter(item => ITEMS[item].price <= player.coins);
+    if (affordable.length === 0) return null;
+
+    if (!this.isSmart(player)) {
+      return this.rng.random() < 0.5 ? this.rng.pick(affordable) : null;
+    }
+
+    const starCost = this.gameState.rules.starCost;
+    return affordable.find(item => player.coins - ITEMS[item].price >= starCost) ?? null;
+  }
+
+  /**
+   * Tile to continue to at a junction - a smart CPU takes the shortest way to the star
+   */
+  chooseDirection(player: Player, options: number[], direction: 1 | -1): number {
+    if (!this.isSmart(player)) return this.rng.pick(options);
+
+    let best = options[0];
+    let bestDistance = Infinity;
+    options.forEach(option => {
+      const distance = this.distanceTo(option, this.gameState.starTileIndex, direction);
+      if (distance < bestDistance) {
+        best = option;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Opponent to pick on a swap / duel tile
+   * Smart: swap with whoever is closest to the star, duel whoever has the most coins
+   */
+  chooseOpponent(player: Player, options: number[], tileType: TileType): number {
+    if (!this.isSmart(player)) return this.rng.pick(options);
+
+    const score = (index: number): number => {
+      const opponent = this.gameState.players[index];
+      return tileType === TileType.SWAP
+        ? -this.distanceTo(opponent.pawnPosition, this.gameState.starTileIndex, 1)
+        : opponent.coins;
+    };
+    return options.reduce((best, index) => score(index) > score(best) ? index : best, options[0]);
+  }
+
+  /**
+   * Answer a trivia question - difficulty sets the chance of knowing the answer and how long it takes
+   * Known answers come in the faster half of the response time, guesses in the slower half
+   */
+  answerTrivia(player: Player): TriviaAnswer {
+    const profile = CPU_PROFILES[player.cpu ?? 'normal'];
+    const [fastest, slowest] = profile.responseTime;
+    const middle = Math.round((fastest + slowest) / 2);
+
+    const knows = this.rng.random() < profile.accuracy;
+    const delay = knows
+      ? this.rng.randomInt(fastest, middle)
+      : this.rng.randomInt(middle, slowest);
+    // A guess still has a 1 in 4 chance of being right
+    const correct = delay < TRIVIA_TIME_PER_QUESTION && (knows || this.rng.random() < 0.25);
+    return { correct, delay };
+  }
+
+  /**
+   * Whether the CPU wins an interactive minigame (tap race, reaction, memory) - as likely as knowing a trivia answer
+   */
+  playMinigame(player: Player): boolean {
+    return this.rng.random() < CPU_PROFILES[player.cpu ?? 'normal'].accuracy;
+  }
+
+  private isSmart(player: Player): boolean {
+    return this.rng.random() < CPU_PROFILES[player.cpu ?? 'normal'].smartChoices;
+  }
+
+  /**
+   * Steps from one tile to another along the tile graph (Infinity when unreachable)
+   */
+  private distanceTo(from: number, to: number, direction: 1 | -1): number {
+    const connections = this.gameState.tiles.map(tile => tile.next);
+    const distances = new Map<number, number>([[from, 0]]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === to) return distances.get(current)!;
+      getNextTiles(connections, current, direction).forEach(next => {
+        if (!distances.has(next)) {
+          distances.set(next, distances.get(current)! + 1);
+          queue.push(next);
+        }
+      });
+    }
+    return Infinity;
+  }
+}
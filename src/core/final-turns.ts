@@ -0,0 +1,48 @@
+/**
+ * Final-turns event - triggered by TurnMachine.startTurn when the last FINAL_TURNS_COUNT turns begin
+ * Shakes up the end of the match with one of the effects below, picked from the 'events' RNG stream
+ */
+
+export const FINAL_TURNS_COUNT = 3; // Number of turns the event covers (the last ones)
+export const LAST_PLACE_BONUS = 10; // Coins given to the last-place player (or team)
+export const FINAL_TURNS_TILE_MULTIPLIER = 2; // Green / red tile values while doubled
+
+export enum FinalTurnsEffect {
+  DOUBLE_TILES = 'double_tiles', // Green and red tiles are worth double until the end
+  LAST_PLACE_BONUS = 'last_place_bonus' // The last-place player gets a coin boost
+}
+
+export interface FinalTurnsState {
+  effect: FinalTurnsEffect;
+  targetIndex?: number; // Player who received the last-place bonus
+  amount?: number; // Coins given with the last-place bonus
+}
+
+export interface FinalTurnsDefinition {
+  effect: FinalTurnsEffect;
+  name: string; // Arabic display name
+  icon: string;
+  description: string;
+}
+
+export const FINAL_TURNS_EFFECTS: Record<FinalTurnsEffect, FinalTurnsDefinition> = {
+  [FinalTurnsEffect.DOUBLE_TILES]: {
+    effect: FinalTurnsEffect.DOUBLE_TILES,
+    name: 'قيمة مضاعفة',
+    icon: '✖️2',
+    description: 'المربعات الخضراء والحمراء مضاعفة حتى نهاية اللعبة'
+  },
+  [FinalTurnsEffect.LAST_PLACE_BONUS]: {
+    effect: FinalTurnsEffect.LAST_PLACE_BONUS,
+    name: 'دفعة للأخير',
+    icon: '🎁',
+    description: `صاحب المركز الأخير يحصل على ${LAST_PLACE_BONUS} عملات`
+  }
+};
+
+/**
+ * Turn the final-turns event starts on (null when the match is too short to have one)
+ */
+export function getFinalTurnsStart(maxTurns: number): number | null {
+  return maxTurns > FINAL_TURNS_COUNT ? maxTurns - FINAL_TURNS_COUNT + 1 : null;
+}
@@ -0,0 +1,69 @@
+import { TileType } from './constants';
+import type { BoardEventType } from './board-events';
+import type { LedgerEntry } from './points-ledger';
+import type { TurnState } from './turn-states';
+import type { MinigameResults } from './minigame-results';
+
+/**
+ * Game event bus - TurnMachine emits typed events as the match plays out,
+ * so the game flow, HUD, BoardScene, audio and analytics can each subscribe on their own
+ * Listeners run synchronously in subscription order; one that throws is logged and doesn't stop the others
+ */
+
+export type MinigameKind = 'blue' | 'duel' | 'round'; // Blue-tile minigame (any registered game), duel or end-of-round minigame
+
+export interface GameEventMap {
+  stateChanged: { state: TurnState; previous: TurnState };
+  turnStarted: { playerIndex: number; turn: number };
+  diceRolled: { playerIndex: number; value: number; forOrder: boolean }; // forOrder = turn-order roll-off
+  pawnMoved: { playerIndex: number; from: number; to: number; path: number[]; direction: 1 | -1 };
+  tileResolved: { playerIndex: number; tileIndex: number; tileType: TileType; points: number | null; event?: BoardEventType };
+  pointsChanged: LedgerEntry;
+  minigameStarted: { playerIndex: number; kind: MinigameKind; opponentIndex?: number };
+  minigameFinished: { playerIndex: number; kind: MinigameKind; won: boolean; points: number; results: MinigameResults };
+  gameEnded: { standings: number[] }; // Player indices, best first
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEventListener<K extends GameEventType> = (payload: GameEventMap[K]) => void;
+
+export class GameEventBus {
+  private listeners: { [K in GameEventType]?: GameEventListener<K>[] } = {};
+
+  /**
+   * Subscribe to an event - returns a function that unsubscribes again
+   */
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+    const listeners = (this.listeners[type] ?? []) as GameEventListener<K>[];
+    listeners.push(listener);
+    this.listeners[type] = listeners as typeof this.listeners[K];
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Unsubscribe a listener added with on()
+   */
+  off<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    const listeners = this.listeners[type] as GameEventListener<K>[] | undefined;
+    if (!listeners) return;
+    const index = listeners.indexOf(listener);
+    if (index !== -1) listeners.splice(index, 1);
+  }
+
+  /**
+   * Call every listener of an event with its payload
+   */
+  emit<K extends GameEventType>(type: K, payload: GameEventMap[K]): void {
+    const listeners = this.listeners[type] as GameEventListener<K>[] | undefined;
+    if (!listeners) return;
+    // Copy so listeners can unsubscribe while the event is being delivered
+    [...listeners].forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[GameEvents] ${type} listener failed:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  TileType,
+  TILE_COUNT,
+  MAX_TURNS,
+  STAR_COST,
+  GREEN_TILE_COUNT,
+  RED_TILE_COUNT,
+  YELLOW_TILE_COUNT,
+  BLUE_TILE_COUNT,
+  SHOP_TILE_COUNT,
+  WARP_TILE_COUNT,
+  SWAP_TILE_COUNT,
+  BANK_TILE_COUNT,
+  EVENT_TILE_COUNT,
+  DUEL_TILE_COUNT,
+  TOLL_TILE_COUNT,
+  TILE_REWARDS
+} from './constants';
+import { BonusAwardType, BONUS_AWARD_TYPES } from './bonus-awards';
+
+/**
+ * Game rules - everything a match can be configured with
+ * Passed into createGameState / TurnMachine / BoardScene instead of reading the constants directly
+ */
+
+export interface GameRules {
+  preset: RulesPresetId | 'custom';
+  tileCount: number; // Board length
+  maxTurns: number;
+  tileCounts: Record<TileType, number>; // How many tiles of each type (must sum to tileCount)
+  starCost: number; // Coins paid for a star when passing / landing on the star space
+  rewards: {
+    green: number;
+    red: number;
+    yellowOptions: number[];
+    minigameWin: number; // Paid for winning a solo, 1v3 or 2v2 minigame
+    minigamePlacements: number[]; // Paid by rank in free-for-all minigames (1st, 2nd, ...) - later ranks get 0
+    bankFee: number; // Paid into the bank pot when passing a bank tile
+    duelStake: number; // Coins the duel winner takes from the loser
+    tollFee: number; // Paid to a toll tile's owner when passing it
+    lapBonus: number; // Paid for every completed lap
+    bonusAwardStars: number; // Stars for each end-of-game bonus award
+  };
+  bonusAwards: BonusAwardType[]; // End-of-game awards in play, in the order they are handed out
+}
+
+export type RulesPresetId = 'quick' | 'standard' | 'marathon';
+
+function createPreset(preset: RulesPresetId, maxTurns: number): GameRules {
+  return {
+    preset,
+    tileCount: TILE_COUNT,
+    maxTurns,
+    tileCounts: {
+      [TileType.GREEN]: GREEN_TILE_COUNT,
+      [TileType.RED]: RED_TILE_COUNT,
+      [TileType.YELLOW]: YELLOW_TILE_COUNT,
+      [TileType.BLUE]: BLUE_TILE_COUNT,
+      [TileType.SHOP]: SHOP_TILE_COUNT,
+      [TileType.WARP]: WARP_TILE_COUNT,
+      [TileType.SWAP]: SWAP_TILE_COUNT,
+      [TileType.BANK]: BANK_TILE_COUNT,
+      [TileType.EVENT]: EVENT_TILE_COUNT,
+      [TileType.DUEL]: DUEL_TILE_COUNT,
+      [TileType.TOLL]: TOLL_TILE_COUNT
+    },
+    starCost: STAR_COST,
+    rewards: {
+      green: TILE_REWARDS.GREEN,
+      red: TILE_REWARDS.RED,
+      yellowOptions: [...TILE_REWARDS.YELLOW_OPTIONS],
+      minigameWin: TILE_REWARDS.MINIGAME_WIN,
+      minigamePlacements: [...TILE_REWARDS.MINIGAME_PLACEMENTS],
+      bankFee: TILE_REWARDS.BANK_FEE,
+      duelStake: TILE_REWARDS.DUEL_STAKE,
+      tollFee: TILE_REWARDS.TOLL_FEE,
+      lapBonus: TILE_REWARDS.LAP_BONUS,
+      bonusAwardStars: TILE_REWARDS.BONUS_AWARD_STARS
+    },
+    bonusAwards: [...BONUS_AWARD_TYPES]
+  };
+}
+
+export const RULE_PRESETS: Record<RulesPresetId, GameRules> = {
+  quick: createPreset('quick', 6),
+  standard: createPreset('standard', MAX_TURNS),
+  marathon: createPreset('marathon', 20)
+};
+
+export const DEFAULT_RULES: GameRules = RULE_PRESETS.standard;
+
+/**
+ * Deep copy a rule set (presets must never be mutated)
+ */
+export function cloneRules(rules: GameRules): GameRules {
+  return {
+    ...rules,
+    tileCounts: { ...rules.tileCounts },
+    rewards: {
+      ...rules.rewards,
+      yellowOptions: [...rules.rewards.yellowOptions],
+      minigamePlacements: [...rules.rewards.minigamePlacements]
+    },
+    bonusAwards: [...rules.bonusAwards]
+  };
+}
+
+/**
+ * Validate a rule set, returns a list of problems (empty when valid)
+ */
+export function validateGameRules(rules: GameRules): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(rules.tileCount) || rules.tileCount < 2) {
+    errors.push('Board length must be a whole number of at least 2 tiles');
+  }
+  if (!Number.isInteger(rules.maxTurns) || rules.maxTurns < 1) {
+    errors.push('Number of turns must be at least 1');
+  }
+
+  const counts = Object.values(rules.tileCounts);
+  if (counts.some(count => !Number.isInteger(count) || count < 0)) {
+    errors.push('Tile counts must be whole numbers of 0 or more');
+  }
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total !== rules.tileCount) {
+    errors.push(`Tile counts add up to ${total} but the board has ${rules.tileCount} tiles`);
+  }
+
+  if (!Number.isInteger(rules.starCost) || rules.starCost < 0) {
+    errors.push('Star cost must be a whole number of 0 or more');
+  }
+  if (rules.tileCounts[TileType.WARP] === 1) {
+    errors.push('Warp tiles come in pairs - use 0 or at least 2');
+  }
+  const fees = [rules.rewards.bankFee, rules.rewards.duelStake, rules.rewards.tollFee, rules.rewards.lapBonus];
+  if (fees.some(fee => !Number.isInteger(fee) || fee < 0)) {
+    errors.push('Bank fee, duel stake, toll fee and lap bonus must be whole numbers of 0 or more');
+  }
+
+  if (!Number.isInteger(rules.rewards.bonusAwardStars) || rules.rewards.bonusAwardStars < 0) {
+    errors.push('Bonus award stars must be a whole number of 0 or more');
+  }
+  if (rules.bonusAwards.some((award, i) => !BONUS_AWARD_TYPES.includes(award) || rules.bonusAwards.indexOf(award) !== i)) {
+    errors.push('Bonus awards must be known awards, each listed once');
+  }
+
+  if (rules.rewards.yellowOptions.length === 0) {
+    errors.push('Yellow tiles need at least one possible reward');
+  }
+  if (rules.rewards.minigamePlacements.length === 0 ||
+    rules.rewards.minigamePlacements.some(value => !Number.isInteger(value) || value < 0)) {
+    errors.push('Minigame placement rewards must be whole numbers of 0 or more, at least one');
+  }
+  const rewardValues = [rules.rewards.green, rules.rewards.red, rules.rewards.minigameWin, ...rules.rewards.yellowOptions];
+  if (rewardValues.some(value => !Number.isFinite(value))) {
+    errors.push('Rewards must be numbers');
+  }
+
+  return errors;
+}
@@ -1,19 +1,46 @@
-import { TileType, TILE_COUNT, MAX_TURNS, TILE_REWARDS } from './constants';
+import { TileType, MIN_PLAYERS, MAX_PLAYERS, TEAM_COUNT, TEAM_SIZE, TEAM_NAMES, TEAM_COLORS } from './constants';
 import { RNG } from './rng';
+import { GameRules, DEFAULT_RULES, cloneRules, validateGameRules } from './game-rules';
+import type { MatchAction } from './match-log';
+import { ItemType } from './items';
+import { createBoardConnections } from './board-layout';
+import type { FinalTurnsState } from './final-turns';
+import { PlayerStats, BonusAwardResult, createPlayerStats } from './bonus-awards';
+import type { CpuDifficulty } from './cpu-player';
+import type { LedgerEntry } from './points-ledger';
+import type { RoundMinigame } from './minigame-results';
 
 /**
  * GameState shape - represents the complete game state
  */
 export interface Player {
   id: number;
-  name: string; // e.g., "Player 1" or "Team Red"
-  isTeam: boolean; // true if it represents a team
+  name: string; // e.g., "Player 1"
+  isTeam: boolean; // true if the player belongs to a team (2v2 mode)
+  teamId?: number; // Index into GameState.teams when isTeam is set
   characterModel: string; // Path to GLB
   characterName: string; // Name of the character (e.g., "Sonic", "Amy Rose")
   portrait: string; // Path to portrait image
   color: string; // Hex color for UI
-  pawnPosition: number; // Current tile index (0-49)
-  points: number;
+  pawnPosition: number; // Current tile index (0 to rules.tileCount - 1)
+  coins: number; // Earned from tiles and minigames, spent on stars (never below 0) - only change through addCoins
+  stars: number; // Main score - ranking is by stars, then coins - only change through addStars
+  laps: number; // Completed laps - the furthest lapProgress reached, so each lap pays its bonus once
+  lapProgress: number; // Start tile crossings going forward, less those going backwards (reverse item)
+  items: ItemType[]; // Inventory (at most MAX_ITEMS)
+  cpu?: CpuDifficulty; // Set for computer-controlled seats
+}
+
+/**
+ * A 2v2 team - teammates keep their own pawn and items but share one coin / star pool
+ */
+export interface Team {
+  id: number;
+  name: string;
+  color: string;
+  members: number[]; // Player indices, in turn order
+  coins: number; // Shared pool - every member's coins / stars mirror it (kept in sync by addCoins / addStars)
+  stars: number;
 }
 
 /**
@@ -21,86 +48,233 @@ export interface Player {
  */
 export interface GameState {
   players: Player[];
+  teams: Team[]; // Empty unless playing in team mode
   currentPlayerIndex: number;
+  turnOrder: number[]; // Player indices in the order they move (decided by the roll-off)
+  orderRolls: number[][]; // Roll-off rolls per player (more than one after a tie)
+  orderRollers: number[]; // Players still rolling in the current roll-off round
   turn: number;
-  tiles: Tile[]; // Array of 50 tiles
+  tiles: Tile[]; // Array of rules.tileCount tiles
+  starTileIndex: number; // Tile the star can currently be bought on (moves after every purchase)
+  bankPot: number; // Coins paid in by players passing a bank tile, collected by landing on one
   currentState: string; // Current turn state machine state
   diceResult: number | null;
   pendingPoints: number | null; // Points from current tile resolution
-  minigameScore: number | null; // Score from minigame (clicks/taps)
+  minigameScore: number | null; // Current player's rank in the blue-tile minigame just played (1 = won)
+  movesLeft: number | null; // Steps still to walk this turn (set while moving, e.g. when stopped at a junction)
+  chosenNext: number | null; // Tile picked at a junction, taken by the next movePawn step
+  activeItem: ItemType | null; // Item used this turn (cleared at the end of the turn)
+  goldenDiceValue: number | null; // Result chosen with the golden dice
+  opponentIndex: number | null; // Opponent challenged on a duel tile
+  finalTurns: FinalTurnsState | null; // Final-turns event, set once the last turns begin
+  minigameId: string | null; // Blue-tile minigame picked for the current player (OPTIONAL_MINIGAME state)
+  roundMinigame: RoundMinigame | null; // End-of-round minigame being played (ROUND_MINIGAME state)
+  recentMinigames: string[]; // IDs of the last minigames picked, most recent last (see MINIGAME_REPEAT_WINDOW)
+  playerStats: PlayerStats[]; // Per-player stats for the bonus awards (same order as players)
+  bonusAwards: BonusAwardResult[]; // Awards handed out at the end of the match
+  ledger: LedgerEntry[]; // Every coin / star change, in the order it happened (see points-ledger)
   rng: RNG; // Deterministic random number generator
+  seed: number; // Starting seed (with the action log, enough to replay the match)
+  actionLog: MatchAction[]; // Every TurnMachine action in the order it happened
+  rules: GameRules; // Board length, turn count, tile distribution and rewards
 }
 
 export interface Tile {
   type: TileType;
   index: number;
+  next: number[]; // Tiles this one leads to - more than one makes it a junction
+  pair?: number; // Warp tiles: the tile the warp leads to
+  owner?: number; // Toll tiles: index of the player who claimed it
 }
 
 /**
  * Initialize a new game state
  * @param seed - Random seed
  * @param players - Initial configuration of players
+ * @param rules - Rule set (defaults to the Standard preset)
  */
-export function createGameState(seed?: number, players: Player[] = []): GameState {
+export function createGameState(seed: number | undefined, players: Player[], rules: GameRules = DEFAULT_RULES): GameState {
+  if (players.length < MIN_PLAYERS || players.length > MAX_PLAYERS) {
+    throw new Error(`A match needs ${MIN_PLAYERS}-${MAX_PLAYERS} players (got ${players.length})`);
+  }
+  const errors = validateGameRules(rules);
+  if (errors.length > 0) {
+    throw new Error(`Invalid game rules: ${errors.join('; ')}`);
+  }
+
   const rng = new RNG(seed);
+  const startingSeed = rng.getSeed();
 
   // Generate tiles with proper distribution
-  const tiles = generateTiles(rng);
+  const tiles = generateTiles(rng.stream('tiles'), rules);
+  const starTileIndex = pickStarTile(rng.stream('stars'), rules.tileCount, 0);
 
   return {
     players,
+    teams: createTeams(players),
     currentPlayerIndex: 0,
+    turnOrder: players.map((_, index) => index),
+    orderRolls: players.map(() => []),
+    orderRollers: [],
     turn: 1,
     tiles,
-    currentState: 'TURN_START',
+    starTileIndex,
+    bankPot: 0,
+    currentState: 'TURN_ORDER',
     diceResult: null,
     pendingPoints: null,
     minigameScore: null,
-    rng
+    movesLeft: null,
+    chosenNext: null,
+    activeItem: null,
+    goldenDiceValue: null,
+    opponentIndex: null,
+    finalTurns: null,
+    minigameId: null,
+    roundMinigame: null,
+    recentMinigames: [],
+    playerStats: players.map(() => createPlayerStats()),
+    bonusAwards: [],
+    ledger: [],
+    rng,
+    seed: startingSeed,
+    actionLog: [],
+    rules: cloneRules(rules)
   };
 }
 
+/**
+ * Put players into teams for the 2v2 mode - seats alternate between the teams,
+ * so the normal turn order already alternates between them
+ * Throws unless there are exactly TEAM_COUNT * TEAM_SIZE players (team minigames are played 2v2)
+ */
+export function assignTeams(players: Player[]): void {
+  if (players.length !== TEAM_COUNT * TEAM_SIZE) {
+    throw new Error(`Team mode needs exactly ${TEAM_COUNT * TEAM_SIZE} players (got ${players.length})`);
+  }
+  players.forEach((player, index) => {
+    player.isTeam = true;
+    player.teamId = index % TEAM_COUNT;
+  });
+}
+
+/**
+ * Build the teams from the players' teamId (none when no player is in a team)
+ */
+export function createTeams(players: Player[]): Team[] {
+  const teams: Team[] = [];
+  players.forEach((player, index) => {
+    if (!player.isTeam || player.teamId === undefined) return;
+    let team = teams.find(t => t.id === player.teamId);
+    if (!team) {
+      team = {
+        id: player.teamId,
+        name: TEAM_NAMES[player.teamId] ?? `Team ${player.teamId + 1}`,
+        color: TEAM_COLORS[player.teamId] ?? player.color,
+        members: [],
+        coins: player.coins,
+        stars: player.stars
+      };
+      teams.push(team);
+    }
+    team.members.push(index);
+  });
+  return teams.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Team a player belongs to (undefined outside team mode)
+ */
+export function getPlayerTeam(gameState: GameState, player: Player): Team | undefined {
+  return player.isTeam ? gameState.teams.find(team => team.id === player.teamId) : undefined;
+}
+
+/**
+ * Whether two different players are on the same team
+ */
+export function areTeammates(a: Player, b: Player): boolean {
+  return a !== b && a.isTeam && b.isTeam && a.teamId !== undefined && a.teamId === b.teamId;
+}
+
 /**
  * Tile generation and placement
- * Creates 50 tiles with proper type distribution in a looped path
+ * Creates rules.tileCount tiles with the rule set's type distribution,
+ * connected as the board layout's graph (main loop + shortcuts), with warp tiles paired up
  */
-function generateTiles(rng: RNG): Tile[] {
+function generateTiles(rng: RNG, rules: GameRules): Tile[] {
   const tiles: Tile[] = [];
 
   // Create tiles based on distribution
   const tileTypes: TileType[] = [];
 
-  for (let i = 0; i < 20; i++) tileTypes.push(TileType.GREEN);
-  for (let i = 0; i < 15; i++) tileTypes.push(TileType.RED);
-  for (let i = 0; i < 10; i++) tileTypes.push(TileType.YELLOW);
-  for (let i = 0; i < 5; i++) tileTypes.push(TileType.BLUE);
+  (Object.keys(rules.tileCounts) as TileType[]).forEach(type => {
+    for (let i = 0; i < rules.tileCounts[type]; i++) tileTypes.push(type);
+  });
 
   // Shuffle to randomize placement
   const shuffled = rng.shuffle(tileTypes);
 
-  // Create tile objects with index
-  for (let i = 0; i < TILE_COUNT; i++) {
+  // Create tile objects with index and connections
+  const connections = createBoardConnections(rules.tileCount);
+  for (let i = 0; i < rules.tileCount; i++) {
     tiles.push({
       type: shuffled[i],
-      index: i
+      index: i,
+      next: connections[i]
     });
   }
 
+  pairWarpTiles(tiles);
   return tiles;
 }
 
 /**
- * Calculate points from a yellow (random) tile
+ * Link each warp tile to the next one along the board (the last wraps to the first)
+ * With two warps this makes a pair that leads both ways
  */
-export function getYellowTilePoints(rng: RNG): number {
-  return rng.pick(TILE_REWARDS.YELLOW_OPTIONS);
+function pairWarpTiles(tiles: Tile[]): void {
+  const warps = tiles.filter(tile => tile.type === TileType.WARP);
+  if (warps.length < 2) return;
+  warps.forEach((tile, i) => {
+    tile.pair = warps[(i + 1) % warps.length].index;
+  });
 }
 
 /**
- * Calculate points from minigame (trivia) score
- * Correct answer = 10 points, wrong answer = 0 points
+ * Pick a tile for the star - never the start tile or the tile it is leaving
  */
-export function getMinigamePoints(correct: boolean): number {
-  return correct ? 10 : 0;
+export function pickStarTile(rng: RNG, tileCount: number, currentIndex: number): number {
+  const candidates: number[] = [];
+  for (let i = 1; i < tileCount; i++) {
+    if (i !== currentIndex) candidates.push(i);
+  }
+  return candidates.length > 0 ? rng.pick(candidates) : currentIndex;
 }
 
+/**
+ * Standing order: more stars first, then more coins (0 = tied)
+ */
+export function compareStandings(a: Pick<Player, 'stars' | 'coins'>, b: Pick<Player, 'stars' | 'coins'>): number {
+  return (b.stars - a.stars) || (b.coins - a.coins);
+}
+
+/**
+ * Sort players by final standing (stars, then coins) without mutating the input
+ */
+export function rankPlayers(players: Player[]): Player[] {
+  return [...players].sort(compareStandings);
+}
+
+/**
+ * Sort teams by final standing (stars, then coins) without mutating the input
+ */
+export function rankTeams(teams: Team[]): Team[] {
+  return [...teams].sort(compareStandings);
+}
+
+/**
+ * Calculate points from a yellow (random) tile
+ */
+export function getYellowTilePoints(rng: RNG, rules: GameRules = DEFAULT_RULES): number {
+  return rng.pick(rules.rewards.yellowOptions);
+}
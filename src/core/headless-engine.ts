@@ -0,0 +1,272 @@
+import { createGameState, rankPlayers, rankTeams, assignTeams, GameState, Player, Team } from './game-state';
+import { TurnMachine } from './turn-machine';
+import { GameEventBus } from './game-events';
+import { RNG } from './rng';
+import { GameRules } from './game-rules';
+import { DICE_MAX } from './constants';
+import { ItemType, ItemUseOptions, ITEMS, MAX_ITEMS } from './items';
+import { MinigameResults, RoundMinigame, createSoloResults, rankMinigameScores } from './minigame-results';
+
+/**
+ * Headless game engine - plays complete matches through TurnMachine without Babylon or the DOM
+ * Every player decision / minigame outcome comes from pluggable resolvers,
+ * so matches can run under Node for tests, automation and simulations
+ */
+
+export interface DecisionContext {
+  gameState: GameState;
+  player: Player;
+  playerIndex: number;
+}
+
+export interface ItemChoice {
+  item: ItemType;
+  options?: ItemUseOptions;
+}
+
+export interface MatchResolvers {
+  /** Outcome of a blue-tile minigame - every participant ranked (the current player must take part) */
+  resolveMinigame(context: DecisionContext): MinigameResults;
+  /** Item to use before rolling (null = roll without one) */
+  chooseItem(context: DecisionContext): ItemChoice | null;
+  /** Item to buy on a shop tile (null = leave without buying) */
+  chooseShopItem(context: DecisionContext): ItemType | null;
+  /** Tile to continue to at a junction (one of options) */
+  chooseDirection(context: DecisionContext, options: number[]): number;
+  /** Opponent to swap places with / duel on a swap or duel tile (one of options) */
+  chooseOpponent(context: DecisionContext, options: number[]): number;
+  /** Outcome of a duel minigame - the current player and their opponent ranked 1v1 */
+  resolveDuel(context: DecisionContext, opponentIndex: number): MinigameResults;
+  /** Outcome of the end-of-round minigame - every participant ranked */
+  resolveRoundMinigame(context: DecisionContext, round: RoundMinigame): MinigameResults;
+}
+
+export interface HeadlessMatchOptions {
+  players: Player[];
+  seed?: number;
+  rules?: GameRules; // Defaults to the Standard preset
+  teams?: boolean; // 2v2 team mode (seats alternate between the teams)
+  resolvers?: Partial<MatchResolvers>;
+  maxActions?: number; // Safety limit against a stuck state machine
+  events?: GameEventBus; // Bus the match's events are emitted on (subscribe before the match starts)
+}
+
+export interface HeadlessMatchResult {
+  gameState: GameState;
+  standings: Player[]; // Best first
+  winner: Player;
+  teamStandings: Team[]; // Best first (empty outside team mode)
+  actions: number; // Number of TurnMachine actions taken
+  minigames: number; // Number of minigames played (duels and end-of-round minigames included)
+}
+
+const DEFAULT_MAX_ACTIONS = 10000;
+
+/**
+ * Items a player can buy right now
+ */
+export function getAffordableItems(player: Player): ItemType[] {
+  if (player.items.length >= MAX_ITEMS) return [];
+  return (Object.keys(ITEMS) as ItemType[]).filter(item => ITEMS[item].price <= player.coins);
+}
+
+/**
+ * Default resolvers - minigames are won half of the time,
+ * items are used / bought half of the time (golden dice always picks the highest number),
+ * junction directions and opponents are picked at random,
+ * duels and end-of-round minigames are ranked by random scores
+ * Uses its own RNG so the game's RNG sequence is the same whatever the resolvers do
+ */
+function createDefaultResolvers(seed: number): MatchResolvers {
+  const rng = new RNG(seed + 1);
+  return {
+    resolveMinigame: ({ playerIndex }) => createSoloResults(playerIndex, rng.random() < 0.5),
+    chooseItem: ({ player }) => {
+      if (rng.random() < 0.5) return null;
+      const item = rng.pick(player.items);
+      return item === ItemType.GOLDEN_DICE ? { item, options: { diceValue: DICE_MAX } } : { item };
+    },
+    chooseShopItem: ({ player }) => {
+      const affordable = getAffordableItems(player);
+      if (affordable.length === 0 || rng.random() < 0.5) return null;
+      return rng.pick(affordable);
+    },
+    chooseDirection: (_context, options) => rng.pick(options),
+    chooseOpponent: (_context, options) => rng.pick(options),
+    resolveDuel: ({ playerIndex }, opponentIndex) => rankMinigameScores('1v1', [playerIndex, opponentIndex]
+      .map(index => ({ playerIndex: index, score: rng.randomInt(0, 9) }))),
+    resolveRoundMinigame: (_context, round) => round.format === 'solo'
+      ? createSoloResults(round.participants[0].playerIndex, rng.random() < 0.5)
+      : rankMinigameScores(round.format, round.participants.map(participant => ({ ...participant, score: rng.randomInt(0, 9) })))
+  };
+}
+
+/**
+ * Create simple placeholder players for headless matches
+ */
+export function createHeadlessPlayers(count: number): Player[] {
+  const players: Player[] = [];
+  for (let i = 0; i < count; i++) {
+    players.push({
+      id: i,
+      name: `Player ${i + 1}`,
+      isTeam: false,
+      characterModel: '',
+      characterName: `Player ${i + 1}`,
+      portrait: '',
+      color: '#888888',
+      pawnPosition: 0,
+      coins: 0,
+      stars: 0,
+      laps: 0,
+      lapProgress: 0,
+      items: []
+    });
+  }
+  return players;
+}
+
+export class HeadlessGame {
+  private gameState: GameState;
+  private turnMachine: TurnMachine;
+  private resolvers: MatchResolvers;
+  private maxActions: number;
+  private actions: number = 0;
+  private minigames: number = 0;
+
+  constructor(options: HeadlessMatchOptions) {
+    const players = options.players.map(player => ({ ...player, items: [...player.items] }));
+    if (options.teams) assignTeams(players);
+    this.gameState = createGameState(options.seed, players, options.rules);
+    this.resolvers = {
+      ...createDefaultResolvers(this.gameState.seed),
+      ...options.resolvers
+    };
+    this.maxActions = options.maxActions ?? DEFAULT_MAX_ACTIONS;
+
+    this.turnMachine = new TurnMachine(this.gameState, options.events);
+    this.turnMachine.startMatch();
+  }
+
+  /**
+   * Perform the single action the current state calls for
+   * Returns false once the game is over
+   */
+  step(): boolean {
+    const state = this.turnMachine.getState();
+    if (state === 'GAME_END') return false;
+
+    if (this.actions >= this.maxActions) {
+      throw new Error(`Headless match exceeded ${this.maxActions} actions (stuck in state ${state})`);
+    }
+    this.actions++;
+
+    switch (state) {
+      case 'TURN_ORDER':
+        this.turnMachine.rollForOrder();
+        break;
+      case 'ITEM_PHASE': {
+        const choice = this.resolvers.chooseItem(this.getContext());
+        if (choice) {
+          this.turnMachine.useItem(choice.item, choice.options);
+        } else {
+          this.turnMachine.rollDice();
+        }
+        break;
+      }
+      case 'TURN_START':
+      case 'ROLL_DICE':
+        this.turnMachine.rollDice();
+        break;
+      case 'MOVE':
+        this.turnMachine.movePawn();
+        break;
+      case 'JUNCTION_CHOICE':
+        this.turnMachine.chooseDirection(
+          this.resolvers.chooseDirection(this.getContext(), this.turnMachine.getJunctionOptions())
+        );
+        break;
+      case 'RESOLVE_TILE':
+        this.turnMachine.resolveTile();
+        break;
+      case 'SHOP': {
+        const item = this.resolvers.chooseShopItem(this.getContext());
+        if (item) {
+          this.turnMachine.buyItem(item);
+        } else {
+          this.turnMachine.leaveShop();
+        }
+        break;
+      }
+      case 'CHOOSE_OPPONENT':
+        this.turnMachine.chooseOpponent(
+          this.resolvers.chooseOpponent(this.getContext(), this.turnMachine.getOpponentOptions())
+        );
+        break;
+      case 'DUEL':
+        this.minigames++;
+        this.turnMachine.completeDuel(this.resolvers.resolveDuel(this.getContext(), this.gameState.opponentIndex!));
+        break;
+      case 'OPTIONAL_MINIGAME':
+        this.minigames++;
+        this.turnMachine.completeMinigame(this.resolvers.resolveMinigame(this.getContext()));
+        break;
+      case 'END_TURN':
+        this.turnMachine.endTurn();
+        break;
+      case 'ROUND_MINIGAME':
+        this.minigames++;
+        this.turnMachine.completeRoundMinigame(
+          this.resolvers.resolveRoundMinigame(this.getContext(), this.gameState.roundMinigame!)
+        );
+        break;
+    }
+
+    return this.turnMachine.getState() !== 'GAME_END';
+  }
+
+  /**
+   * Play until the game ends
+   */
+  run(): HeadlessMatchResult {
+    while (this.step()) {
+      // keep playing
+    }
+    return this.getResult();
+  }
+
+  getResult(): HeadlessMatchResult {
+    const standings = rankPlayers(this.gameState.players);
+    return {
+      gameState: this.gameState,
+      standings,
+      winner: standings[0],
+      teamStandings: rankTeams(this.gameState.teams),
+      actions: this.actions,
+      minigames: this.minigames
+    };
+  }
+
+  getGameState(): GameState {
+    return this.gameState;
+  }
+
+  getTurnMachine(): TurnMachine {
+    return this.turnMachine;
+  }
+
+  private getContext(): DecisionContext {
+    return {
+      gameState: this.gameState,
+      player: this.turnMachine.getCurrentPlayer(),
+      playerIndex: this.gameState.currentPlayerIndex
+    };
+  }
+}
+
+/**
+ * Play one complete match headlessly
+ */
+export function runHeadlessMatch(options: HeadlessMatchOptions): HeadlessMatchResult {
+  return new HeadlessGame(options).run();
+}
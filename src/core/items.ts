@@ -0,0 +1,65 @@
+/**
+ * Items - bought on shop tiles, kept in Player.items and used in the ITEM_PHASE before rolling
+ */
+
+export enum ItemType {
+  DOUBLE_DICE = 'double_dice', // Roll two dice and move the total
+  GOLDEN_DICE = 'golden_dice', // Choose the dice result (1-6)
+  REVERSE = 'reverse', // Move backwards this turn
+  STEAL = 'steal', // Take coins from the richest opponent
+  SHIELD = 'shield' // Ignore a red tile this turn
+}
+
+export const MAX_ITEMS = 3; // Inventory size per player
+export const STEAL_AMOUNT = 5; // Coins taken by the steal item
+
+export interface ItemDefinition {
+  type: ItemType;
+  name: string; // Arabic display name
+  icon: string;
+  description: string;
+  price: number; // Coins
+}
+
+export const ITEMS: Record<ItemType, ItemDefinition> = {
+  [ItemType.DOUBLE_DICE]: {
+    type: ItemType.DOUBLE_DICE,
+    name: 'نرد مزدوج',
+    icon: '🎲',
+    description: 'ارمِ نردين وتحرك بمجموعهما',
+    price: 5
+  },
+  [ItemType.GOLDEN_DICE]: {
+    type: ItemType.GOLDEN_DICE,
+    name: 'النرد الذهبي',
+    icon: '🌟',
+    description: 'اختر الرقم الذي تريده من 1 إلى 6',
+    price: 8
+  },
+  [ItemType.REVERSE]: {
+    type: ItemType.REVERSE,
+    name: 'عكس الاتجاه',
+    icon: '🔄',
+    description: 'تحرك إلى الخلف هذا الدور',
+    price: 3
+  },
+  [ItemType.STEAL]: {
+    type: ItemType.STEAL,
+    name: 'سرقة',
+    icon: '🦝',
+    description: `خذ ${STEAL_AMOUNT} عملات من أغنى منافس`,
+    price: 6
+  },
+  [ItemType.SHIELD]: {
+    type: ItemType.SHIELD,
+    name: 'درع',
+    icon: '🛡️',
+    description: 'تجاهل المربع الأحمر هذا الدور',
+    price: 4
+  }
+};
+
+/** Extra input an item needs when it is used */
+export interface ItemUseOptions {
+  diceValue?: number; // Golden dice: the chosen result
+}
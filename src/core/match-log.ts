@@ -0,0 +1,240 @@
+import { TileType } from './constants';
+import { createGameState, GameState, Player } from './game-state';
+import { TurnMachine } from './turn-machine';
+import { GameRules, cloneRules } from './game-rules';
+import { ItemType } from './items';
+import { BoardEventType } from './board-events';
+import { PassHookType } from './pass-hooks';
+import { FinalTurnsEffect } from './final-turns';
+import { BonusAwardType } from './bonus-awards';
+import { auditLedger } from './points-ledger';
+import type { MinigameResults, MinigameFormat } from './minigame-results';
+
+/**
+ * Match log - event-sourced record of every TurnMachine action
+ * Seed + rules + starting players + action log is enough to replay a match exactly,
+ * including minigame outcomes (which are not random and therefore logged)
+ */
+
+export type MatchAction =
+  | { type: 'rollOrder'; playerIndex: number; value: number } // Turn-order roll-off before turn 1
+  | { type: 'useItem'; playerIndex: number; item: ItemType; diceValue?: number; targetIndex?: number; amount?: number }
+  | { type: 'rollDice'; playerIndex: number; value: number }
+  | { type: 'movePawn'; playerIndex: number; from: number; to: number; steps: number; direction: 1 | -1; path: number[] }
+  | { type: 'chooseDirection'; playerIndex: number; from: number; to: number }
+  | {
+    type: 'passTile'; playerIndex: number; hook: PassHookType; tileIndex: number; step: number;
+    coins: number; stars?: number; targetIndex?: number; relocatedTo?: number; lap?: number
+  } // Effect of the preceding movePawn
+  | { type: 'resolveTile'; playerIndex: number; tileIndex: number; tileType: TileType; points: number | null; warpTo?: number; event?: BoardEventType; minigameId?: string } // minigameId: blue tiles
+  | { type: 'chooseOpponent'; playerIndex: number; targetIndex: number; tileType: TileType }
+  | { type: 'completeDuel'; playerIndex: number; opponentIndex: number; results: MinigameResults; amount: number } // amount: coins the winner took (0 on a draw)
+  | { type: 'buyItem'; playerIndex: number; item: ItemType; price: number }
+  | { type: 'leaveShop'; playerIndex: number }
+  | { type: 'completeMinigame'; playerIndex: number; results: MinigameResults; payouts: number[] } // payouts: same order as results.placements
+  | { type: 'endTurn'; playerIndex: number; turn: number }
+  | { type: 'roundMinigame'; playerIndex: number; round: number; minigameId: string; format: MinigameFormat } // Started by the endTurn that ends a round
+  | { type: 'completeRoundMinigame'; playerIndex: number; minigameId: string; results: MinigameResults; payouts: number[] }
+  | { type: 'finalTurns'; playerIndex: number; effect: FinalTurnsEffect; targetIndex?: number; amount?: number } // Effect of the preceding endTurn / completeRoundMinigame
+  | { type: 'bonusAward'; playerIndex: number; award: BonusAwardType; winners: number[]; value: number; stars: number }; // Handed out by the final endTurn / completeRoundMinigame
+
+export type MatchActionType = MatchAction['type'];
+
+export type PassTileAction = Extract<MatchAction, { type: 'passTile' }>;
+
+/**
+ * Pass-through effects logged by a movePawn (the actions recorded after it)
+ */
+export function getPassEffects(actionLog: MatchAction[], from: number): PassTileAction[] {
+  return actionLog.slice(from).filter((action): action is PassTileAction => action.type === 'passTile');
+}
+
+export const MATCH_LOG_VERSION = 15;
+
+export interface MatchLog {
+  version: number;
+  seed: number;
+  rules: GameRules;
+  players: Player[]; // Players as they were at the start of the match
+  actions: MatchAction[];
+}
+
+/**
+ * Reset a player to how they start a match
+ */
+function toStartingPlayer(player: Player): Player {
+  return { ...player, pawnPosition: 0, coins: 0, stars: 0, laps: 0, lapProgress: 0, items: [] };
+}
+
+/**
+ * Build a self-contained match log from a (running or finished) game
+ */
+export function createMatchLog(gameState: GameState): MatchLog {
+  return {
+    version: MATCH_LOG_VERSION,
+    seed: gameState.seed,
+    rules: cloneRules(gameState.rules),
+    players: gameState.players.map(toStartingPlayer),
+    actions: gameState.actionLog.map(action => ({ ...action }))
+  };
+}
+
+/**
+ * Steps through a match log, re-running each action on a fresh TurnMachine
+ * Throws if the replayed result differs from the logged one (desync),
+ * or if the replayed scores stop adding up to the points ledger
+ */
+export class MatchReplayer {
+  private log: MatchLog;
+  private gameState: GameState;
+  private turnMachine: TurnMachine;
+  private cursor: number = 0;
+
+  constructor(log: MatchLog) {
+    this.log = log;
+    this.gameState = createGameState(log.seed, log.players.map(toStartingPlayer), log.rules);
+    this.turnMachine = new TurnMachine(this.gameState);
+    this.turnMachine.startMatch();
+  }
+
+  /**
+   * Apply the next logged action, returns it (or null when the log is exhausted)
+   */
+  step(): MatchAction | null {
+    const action = this.log.actions[this.cursor];
+    if (!action) return null;
+
+    if (action.playerIndex !== this.gameState.currentPlayerIndex) {
+      this.desync(action, `expected player ${action.playerIndex}, current is ${this.gameState.currentPlayerIndex}`);
+    }
+
+    switch (action.type) {
+      case 'rollOrder': {
+        const value = this.turnMachine.rollForOrder();
+        if (value !== action.value) this.desync(action, `rolled ${value}`);
+        break;
+      }
+      case 'useItem':
+        this.turnMachine.useItem(action.item, { diceValue: action.diceValue });
+        break;
+      case 'rollDice': {
+        const value = this.turnMachine.rollDice();
+        if (value !== action.value) this.desync(action, `rolled ${value}`);
+        break;
+      }
+      case 'movePawn': {
+        this.turnMachine.movePawn();
+        const position = this.turnMachine.getCurrentPlayer().pawnPosition;
+        if (position !== action.to) this.desync(action, `moved to ${position}`);
+        break;
+      }
+      case 'chooseDirection':
+        this.turnMachine.chooseDirection(action.to);
+        break;
+      case 'passTile':
+      case 'finalTurns':
+      case 'roundMinigame':
+      case 'bonusAward': {
+        // Already applied by movePawn / endTurn - only check the replay triggered the same effect
+        const replayed = this.gameState.actionLog[this.cursor];
+        if (JSON.stringify(replayed) !== JSON.stringify(action)) {
+          this.desync(action, `replay logged ${JSON.stringify(replayed)}`);
+        }
+        break;
+      }
+      case 'resolveTile': {
+        this.turnMachine.resolveTile();
+        if (this.gameState.pendingPoints !== action.points) {
+          this.desync(action, `resolved for ${this.gameState.pendingPoints} points`);
+        }
+        const resolved = this.gameState.actionLog[this.gameState.actionLog.length - 1];
+        if (resolved.type === 'resolveTile' && resolved.event !== action.event) {
+          this.desync(action, `triggered event ${resolved.event}`);
+        }
+        if (resolved.type === 'resolveTile' && resolved.minigameId !== action.minigameId) {
+          this.desync(action, `picked minigame ${resolved.minigameId}`);
+        }
+        break;
+      }
+      case 'chooseOpponent':
+        this.turnMachine.chooseOpponent(action.targetIndex);
+        break;
+      case 'completeDuel': {
+        this.turnMachine.completeDuel(action.results);
+        const resolved = this.gameState.actionLog[this.gameState.actionLog.length - 1];
+        if (resolved.type === 'completeDuel' && resolved.amount !== action.amount) {
+          this.desync(action, `duel paid ${resolved.amount} coins`);
+        }
+        break;
+      }
+      case 'buyItem':
+        this.turnMachine.buyItem(action.item);
+        break;
+      case 'leaveShop':
+        this.turnMachine.leaveShop();
+        break;
+      case 'completeMinigame': {
+        this.turnMachine.completeMinigame(action.results);
+        const resolved = this.gameState.actionLog[this.gameState.actionLog.length - 1];
+        if (resolved.type === 'completeMinigame' && resolved.payouts.join() !== action.payouts.join()) {
+          this.desync(action, `minigame paid ${resolved.payouts.join(', ')} coins`);
+        }
+        break;
+      }
+      case 'endTurn':
+        this.turnMachine.endTurn();
+        break;
+      case 'completeRoundMinigame': {
+        this.turnMachine.completeRoundMinigame(action.results);
+        const resolved = this.gameState.actionLog[this.gameState.actionLog.length - 1];
+        if (resolved.type === 'completeRoundMinigame' && resolved.payouts.join() !== action.payouts.join()) {
+          this.desync(action, `round minigame paid ${resolved.payouts.join(', ')} coins`);
+        }
+        break;
+      }
+    }
+
+    const mismatches = auditLedger(this.gameState);
+    if (mismatches.length > 0) this.desync(action, mismatches.join('; '));
+
+    this.cursor++;
+    return action;
+  }
+
+  /**
+   * Replay every remaining action
+   */
+  runToEnd(): GameState {
+    while (this.step()) {
+      // keep stepping
+    }
+    return this.gameState;
+  }
+
+  isFinished(): boolean {
+    return this.cursor >= this.log.actions.length;
+  }
+
+  getProgress(): { current: number; total: number } {
+    return { current: this.cursor, total: this.log.actions.length };
+  }
+
+  getGameState(): GameState {
+    return this.gameState;
+  }
+
+  getTurnMachine(): TurnMachine {
+    return this.turnMachine;
+  }
+
+  private desync(action: MatchAction, detail: string): never {
+    throw new Error(`Replay desync at action #${this.cursor} (${action.type}): ${detail}`);
+  }
+}
+
+/**
+ * Replay a whole match and return the resulting game state
+ */
+export function replayMatch(log: MatchLog): GameState {
+  return new MatchReplayer(log).runToEnd();
+}
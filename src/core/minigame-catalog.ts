@@ -0,0 +1,69 @@
+import { RNG } from './rng';
+
+/**
+ * Minigame catalog - what the rules know about every minigame (type, player counts, weight, tags)
+ * TurnMachine picks blue-tile and round minigames from it; minigameRegistry (src/minigames) pairs each entry with its factory
+ * Lives in core so the rules engine, headless CLI and simulator never load the browser minigames
+ */
+
+export type MinigameType = 'trivia' | 'interactive';
+
+export interface MinigameMetadata {
+  id: string; // minigameRegistry ID
+  type: MinigameType;
+  minPlayers: number; // Player counts the game suits (end-of-round minigames are played by everyone)
+  maxPlayers: number;
+  weight: number; // Relative chance of being picked (0 = only ever started by ID)
+  tags: string[];
+}
+
+/** Which minigames a pick may choose from */
+export interface MinigameCriteria {
+  type?: MinigameType;
+  playerCount?: number; // Only games that suit this many players
+  tags?: string[]; // Only games with at least one of these tags
+  recent?: string[]; // IDs picked lately - skipped unless nothing else fits
+}
+
+export const MINIGAME_CATALOG: MinigameMetadata[] = [
+  // One question for one player
+  { id: 'trivia', type: 'trivia', minPlayers: 1, maxPlayers: 1, weight: 1, tags: ['knowledge'] },
+  // Interactive games - in a round minigame everyone plays the same game in turn and is ranked by score
+  { id: 'tap-race', type: 'interactive', minPlayers: 1, maxPlayers: 4, weight: 1, tags: ['speed'] },
+  { id: 'reaction', type: 'interactive', minPlayers: 1, maxPlayers: 4, weight: 1, tags: ['reflexes'] },
+  { id: 'memory', type: 'interactive', minPlayers: 1, maxPlayers: 4, weight: 1, tags: ['memory'] },
+  { id: 'falling-platforms', type: 'interactive', minPlayers: 1, maxPlayers: 4, weight: 1, tags: ['3d', 'survival'] }
+];
+
+/**
+ * Catalog entries matching the criteria (in catalog order)
+ */
+export function findMinigames(criteria: MinigameCriteria = {}, catalog: MinigameMetadata[] = MINIGAME_CATALOG): MinigameMetadata[] {
+  const { type, playerCount, tags } = criteria;
+  return catalog.filter(game =>
+    (type === undefined || game.type === type) &&
+    (playerCount === undefined || (playerCount >= game.minPlayers && playerCount <= game.maxPlayers)) &&
+    (tags === undefined || tags.some(tag => game.tags.includes(tag)))
+  );
+}
+
+/**
+ * Pick a minigame matching the criteria, weighted by metadata.weight
+ * Recently picked games are left out while any other game fits, so the same one doesn't come up twice in a row
+ * Returns null when no game with a weight above 0 fits
+ */
+export function pickMinigame(rng: RNG, criteria: MinigameCriteria = {}, catalog: MinigameMetadata[] = MINIGAME_CATALOG): MinigameMetadata | null {
+  const candidates = findMinigames(criteria, catalog).filter(game => game.weight > 0);
+  if (candidates.length === 0) return null;
+
+  const recent = criteria.recent ?? [];
+  const fresh = candidates.filter(game => !recent.includes(game.id));
+  const pool = fresh.length > 0 ? fresh : candidates;
+
+  let roll = rng.random() * pool.reduce((total, game) => total + game.weight, 0);
+  for (const game of pool) {
+    roll -= game.weight;
+    if (roll < 0) return game;
+  }
+  return pool[pool.length - 1];
+}
@@ -0,0 +1,154 @@
+import { GameRules, DEFAULT_RULES } from './game-rules';
+
+/**
+ * Minigame results - every participant of a minigame ranked, and paid by placement
+ * Blue tiles play solo (beat the challenge or not); free-for-all, 1v3 and 2v2 minigames rank everyone
+ * taking part, and all of them resolve through TurnMachine.completeMinigame
+ * Duels rank the challenger and their opponent 1v1 and resolve through TurnMachine.completeDuel
+ */
+
+export type MinigameFormat = 'solo' | '1v1' | 'free_for_all' | '1v3' | '2v2';
+
+export interface MinigamePlacement {
+  playerIndex: number;
+  rank: number; // 1 = best - tied players share a rank and the ranks after them are skipped (1, 1, 3)
+  side?: number; // 1v3 / 2v2: side the player was on (a side shares its rank)
+}
+
+export interface MinigameResults {
+  format: MinigameFormat;
+  placements: MinigamePlacement[]; // Every participant, best first
+}
+
+export interface MinigameParticipant {
+  playerIndex: number;
+  side?: number; // 1v3 / 2v2 only
+}
+
+/** A participant's final score, used to rank them (higher is better) */
+export interface MinigameScore extends MinigameParticipant {
+  score: number;
+}
+
+/** End-of-round minigame everyone plays (GameState.roundMinigame while it is being played) */
+export interface RoundMinigame {
+  minigameId: string; // minigameRegistry ID
+  format: MinigameFormat;
+  participants: MinigameParticipant[]; // Every player, in turn order
+}
+
+/** Sizes of the two sides in the team formats */
+const SIDE_SIZES: Partial<Record<MinigameFormat, number[]>> = {
+  '1v3': [1, 3],
+  '2v2': [2, 2]
+};
+
+/**
+ * Result of a solo minigame - rank 1 beat the challenge, rank 2 didn't
+ */
+export function createSoloResults(playerIndex: number, won: boolean): MinigameResults {
+  return { format: 'solo', placements: [{ playerIndex, rank: won ? 1 : 2 }] };
+}
+
+/**
+ * Rank participants by score - in 1v3 / 2v2 a side is ranked by its members' total
+ */
+export function rankMinigameScores(format: MinigameFormat, scores: MinigameScore[]): MinigameResults {
+  if (format === 'solo') {
+    throw new Error('Solo minigames are won or lost - use createSoloResults');
+  }
+
+  const isTeamFormat = SIDE_SIZES[format] !== undefined;
+  const sideTotals = new Map<number, number>();
+  if (isTeamFormat) {
+    scores.forEach(entry => {
+      if (entry.side === undefined) throw new Error(`Player ${entry.playerIndex} has no side in a ${format} minigame`);
+      sideTotals.set(entry.side, (sideTotals.get(entry.side) ?? 0) + entry.score);
+    });
+  }
+  const rankingScore = (entry: MinigameScore): number => isTeamFormat ? sideTotals.get(entry.side!)! : entry.score;
+
+  const sorted = [...scores].sort((a, b) => rankingScore(b) - rankingScore(a));
+  const placements = sorted.map(entry => ({
+    playerIndex: entry.playerIndex,
+    rank: 1 + sorted.filter(other => rankingScore(other) > rankingScore(entry)).length,
+    ...(isTeamFormat ? { side: entry.side } : {})
+  }));
+  return { format, placements };
+}
+
+/**
+ * Check results before they are paid out - throws on anything inconsistent
+ */
+export function validateMinigameResults(results: MinigameResults, playerCount: number): void {
+  const { format, placements } = results;
+  const indices = placements.map(placement => placement.playerIndex);
+  if (indices.some(index => !Number.isInteger(index) || index < 0 || index >= playerCount)) {
+    throw new Error(`Minigame results name an unknown player: ${indices.join(', ')}`);
+  }
+  if (new Set(indices).size !== indices.length) {
+    throw new Error('Minigame results list a player more than once');
+  }
+
+  if (format === 'solo') {
+    if (placements.length !== 1 || ![1, 2].includes(placements[0].rank)) {
+      throw new Error('A solo minigame has one player ranked 1 (won) or 2 (lost)');
+    }
+    return;
+  }
+
+  if (placements.length < 2) {
+    throw new Error(`A ${format} minigame needs at least 2 players`);
+  }
+  if (format === '1v1' && placements.length !== 2) {
+    throw new Error('A 1v1 minigame has exactly 2 players');
+  }
+  placements.forEach((placement, i) => {
+    const expected = 1 + placements.filter(other => other.rank < placement.rank).length;
+    if (placement.rank !== expected || (i > 0 && placement.rank < placements[i - 1].rank)) {
+      throw new Error(`Minigame placements are not ranked in order (player ${placement.playerIndex} at rank ${placement.rank})`);
+    }
+  });
+
+  const sideSizes = SIDE_SIZES[format];
+  if (sideSizes) {
+    const sides = new Map<number, MinigamePlacement[]>();
+    placements.forEach(placement => {
+      if (placement.side === undefined) throw new Error(`Player ${placement.playerIndex} has no side in a ${format} minigame`);
+      sides.set(placement.side, [...(sides.get(placement.side) ?? []), placement]);
+    });
+    const sizes = [...sides.values()].map(members => members.length).sort((a, b) => a - b);
+    if (sizes.join() !== sideSizes.join()) {
+      throw new Error(`A ${format} minigame needs sides of ${sideSizes.join(' and ')} players`);
+    }
+    if ([...sides.values()].some(members => members.some(member => member.rank !== members[0].rank))) {
+      throw new Error(`Players on the same side of a ${format} minigame must share a rank`);
+    }
+  }
+}
+
+/**
+ * Coins paid to each placement (same order as results.placements)
+ * Free-for-all pays rules.rewards.minigamePlacements by rank; solo, 1v1, 1v3 and 2v2 pay rules.rewards.minigameWin to rank 1
+ * (once per side in 2v2, as teammates share their coins)
+ * (a duel's stake is moved by TurnMachine.completeDuel instead)
+ */
+export function getMinigamePayouts(results: MinigameResults, rules: GameRules = DEFAULT_RULES): number[] {
+  return results.placements.map((placement, i) => {
+    if (results.format === 'free_for_all') {
+      return rules.rewards.minigamePlacements[placement.rank - 1] ?? 0;
+    }
+    // 2v2 sides are teams sharing one coin pool - the side's first placement collects its win
+    if (results.format === '2v2' && results.placements.findIndex(other => other.side === placement.side) !== i) {
+      return 0;
+    }
+    return placement.rank === 1 ? rules.rewards.minigameWin : 0;
+  });
+}
+
+/**
+ * Placement of one player (undefined when they didn't take part)
+ */
+export function getPlacement(results: MinigameResults, playerIndex: number): MinigamePlacement | undefined {
+  return results.placements.find(placement => placement.playerIndex === playerIndex);
+}
@@ -0,0 +1,113 @@
+import { GameState, Player, areTeammates, pickStarTile } from './game-state';
+import { TileType } from './constants';
+import { addCoins, addStars } from './points-ledger';
+
+/**
+ * Pass-through hooks - tile effects that trigger on every step of a move, not only on the landing tile
+ * TurnMachine.movePawn runs PASS_HOOKS in order for each tile walked; each triggered hook is logged
+ * as a passTile action so the board can pause the animation on that step and the HUD can show it
+ */
+
+export type PassHookType = 'start' | 'star' | 'bank' | 'toll';
+
+export interface PassContext {
+  gameState: GameState;
+  player: Player;
+  playerIndex: number;
+  fromIndex: number; // Tile being walked off
+  tileIndex: number; // Tile being walked onto
+  direction: 1 | -1;
+  isLanding: boolean; // Last step of the whole move
+}
+
+export interface PassHookResult {
+  coins: number; // Coin change for the moving player
+  stars?: number; // Stars gained
+  targetIndex?: number; // Player who received the coins (toll owner)
+  relocatedTo?: number; // New star tile after a purchase
+  lap?: number; // Lap just completed
+}
+
+export interface PassHook {
+  type: PassHookType;
+  /** Apply the effect if it triggers on this step, null otherwise */
+  apply(context: PassContext): PassHookResult | null;
+}
+
+/**
+ * Crossing the start tile moving forward completes a lap and pays the lap bonus
+ * Moving backwards off it with the reverse item takes that crossing back, so walking over start
+ * again only pays once the player is past their furthest lap
+ */
+const startHook: PassHook = {
+  type: 'start',
+  apply({ gameState, player, fromIndex, tileIndex, direction }) {
+    if (direction === -1 && fromIndex === 0) {
+      player.lapProgress--;
+      return null;
+    }
+    if (tileIndex !== 0 || direction !== 1) return null;
+    player.lapProgress++;
+    if (player.lapProgress <= player.laps) return null;
+
+    const bonus = gameState.rules.rewards.lapBonus;
+    player.laps = player.lapProgress;
+    addCoins(gameState, player, bonus, 'lap', tileIndex);
+    return { coins: bonus, lap: player.laps };
+  }
+};
+
+/**
+ * Passing or landing on the star space buys the star if the player can afford it,
+ * the star then relocates to another tile
+ */
+const starHook: PassHook = {
+  type: 'star',
+  apply({ gameState, player, tileIndex }) {
+    const cost = gameState.rules.starCost;
+    if (tileIndex !== gameState.starTileIndex || player.coins < cost) return null;
+
+    addCoins(gameState, player, -cost, 'star', tileIndex);
+    addStars(gameState, player, 1, 'star', tileIndex);
+    gameState.starTileIndex = pickStarTile(gameState.rng.stream('stars'), gameState.rules.tileCount, tileIndex);
+    return { coins: -cost, stars: 1, relocatedTo: gameState.starTileIndex };
+  }
+};
+
+/**
+ * Passing a bank tile pays the bank fee into the pot (landing collects the pot in resolveTile instead)
+ */
+const bankHook: PassHook = {
+  type: 'bank',
+  apply({ gameState, player, tileIndex, isLanding }) {
+    if (isLanding || gameState.tiles[tileIndex].type !== TileType.BANK) return null;
+
+    const amount = Math.min(gameState.rules.rewards.bankFee, player.coins);
+    if (amount === 0) return null;
+    addCoins(gameState, player, -amount, 'bank', tileIndex);
+    gameState.bankPot += amount;
+    return { coins: -amount };
+  }
+};
+
+/**
+ * Passing a toll tile claimed by another player pays them the toll (landing claims it in resolveTile)
+ * Teammates pass each other's tolls for free
+ */
+const tollHook: PassHook = {
+  type: 'toll',
+  apply({ gameState, player, playerIndex, tileIndex, isLanding }) {
+    const tile = gameState.tiles[tileIndex];
+    if (isLanding || tile.type !== TileType.TOLL || tile.owner === undefined || tile.owner === playerIndex) return null;
+    if (areTeammates(player, gameState.players[tile.owner])) return null;
+
+    const amount = Math.min(gameState.rules.rewards.tollFee, player.coins);
+    if (amount === 0) return null;
+    addCoins(gameState, player, -amount, 'toll', tileIndex);
+    addCoins(gameState, gameState.players[tile.owner], amount, 'toll', tileIndex);
+    return { coins: -amount, targetIndex: tile.owner };
+  }
+};
+
+/** Hooks in the order they run on each step */
+export const PASS_HOOKS: PassHook[] = [startHook, starHook, bankHook, tollHook];
@@ -0,0 +1,153 @@
+import { GameState, Player, getPlayerTeam } from './game-state';
+
+/**
+ * Points ledger - every coin / star change goes through addCoins / addStars, which apply it
+ * (to the shared pool in team mode) and log a LedgerEntry in GameState.ledger
+ * The HUD shows it as a live feed, the end screen as per-player breakdowns,
+ * and auditLedger checks a game state's scores add up to its ledger
+ */
+
+export type LedgerCurrency = 'coins' | 'stars';
+
+export type LedgerReason =
+  | 'green'
+  | 'red'
+  | 'yellow'
+  | 'minigame'
+  | 'round_minigame'
+  | 'duel'
+  | 'steal'
+  | 'shop'
+  | 'bank'
+  | 'event'
+  | 'lap'
+  | 'star'
+  | 'toll'
+  | 'final_turns'
+  | 'bonus_award';
+
+export interface LedgerEntry {
+  playerIndex: number;
+  currency: LedgerCurrency;
+  delta: number; // Change actually applied (coins never go below 0)
+  reason: LedgerReason;
+  turn: number;
+  tileIndex: number; // Tile the change happened on
+}
+
+export const LEDGER_REASONS: Record<LedgerReason, { label: string; icon: string }> = {
+  green: { label: 'مربع أخضر', icon: '🟢' },
+  red: { label: 'مربع أحمر', icon: '🔴' },
+  yellow: { label: 'مربع أصفر', icon: '🟡' },
+  minigame: { label: 'تحدي', icon: '🎮' },
+  round_minigame: { label: 'تحدي الجولة', icon: '🏆' },
+  duel: { label: 'مبارزة', icon: '🗡' },
+  steal: { label: 'سرقة', icon: '🦹' },
+  shop: { label: 'متجر', icon: '🛒' },
+  bank: { label: 'بنك', icon: '🏦' },
+  event: { label: 'حدث', icon: '❗' },
+  lap: { label: 'لفة', icon: '🏁' },
+  star: { label: 'نجمة', icon: '⭐' },
+  toll: { label: 'رسوم عبور', icon: '🚧' },
+  final_turns: { label: 'الأدوار الأخيرة', icon: '🔥' },
+  bonus_award: { label: 'جائزة إضافية', icon: '🏅' }
+};
+
+/**
+ * Apply a coin / star change and log it - returns the change actually applied
+ * In team mode the change goes into the team's pool and every member mirrors it
+ * @param tileIndex - Tile it happened on (defaults to the current player's tile)
+ */
+function changeScore(
+  gameState: GameState,
+  player: Player,
+  currency: LedgerCurrency,
+  amount: number,
+  reason: LedgerReason,
+  tileIndex?: number
+): number {
+  const team = getPlayerTeam(gameState, player);
+  const current = team ? team[currency] : player[currency];
+  const next = Math.max(0, current + amount);
+  const delta = next - current;
+
+  if (team) {
+    team[currency] = next;
+    team.members.forEach(index => {
+      gameState.players[index][currency] = next;
+    });
+  } else {
+    player[currency] = next;
+  }
+
+  if (delta !== 0) {
+    gameState.ledger.push({
+      playerIndex: gameState.players.indexOf(player),
+      currency,
+      delta,
+      reason,
+      turn: gameState.turn,
+      tileIndex: tileIndex ?? gameState.players[gameState.currentPlayerIndex].pawnPosition
+    });
+  }
+  return delta;
+}
+
+/**
+ * Add (or with a negative amount, remove) coins - a player can't go below 0
+ */
+export function addCoins(gameState: GameState, player: Player, amount: number, reason: LedgerReason, tileIndex?: number): number {
+  return changeScore(gameState, player, 'coins', amount, reason, tileIndex);
+}
+
+/**
+ * Add (or remove) stars
+ */
+export function addStars(gameState: GameState, player: Player, amount: number, reason: LedgerReason, tileIndex?: number): number {
+  return changeScore(gameState, player, 'stars', amount, reason, tileIndex);
+}
+
+/**
+ * Totals per reason for a set of players (one player, or a team's members), largest change first
+ */
+export function getLedgerBreakdown(
+  ledger: LedgerEntry[],
+  playerIndices: number[]
+): { reason: LedgerReason; coins: number; stars: number }[] {
+  const totals = new Map<LedgerReason, { reason: LedgerReason; coins: number; stars: number }>();
+  ledger.forEach(entry => {
+    if (!playerIndices.includes(entry.playerIndex)) return;
+    const total = totals.get(entry.reason) ?? { reason: entry.reason, coins: 0, stars: 0 };
+    total[entry.currency] += entry.delta;
+    totals.set(entry.reason, total);
+  });
+  return [...totals.values()].sort((a, b) =>
+    (Math.abs(b.stars) - Math.abs(a.stars)) || (Math.abs(b.coins) - Math.abs(a.coins)));
+}
+
+/**
+ * Check every player's (or team's) coins and stars equal the sum of their ledger entries
+ * (players start a match with none) - returns a list of mismatches (empty when it adds up)
+ * Takes a live game state or a save snapshot
+ */
+export function auditLedger(gameState: Pick<GameState, 'players' | 'teams' | 'ledger'>): string[] {
+  const errors: string[] = [];
+  const sum = (playerIndices: number[], currency: LedgerCurrency): number => gameState.ledger
+    .filter(entry => entry.currency === currency && playerIndices.includes(entry.playerIndex))
+    .reduce((total, entry) => total + entry.delta, 0);
+
+  const check = (name: string, playerIndices: number[], score: { coins: number; stars: number }) => {
+    (['coins', 'stars'] as LedgerCurrency[]).forEach(currency => {
+      const logged = sum(playerIndices, currency);
+      if (logged !== score[currency]) {
+        errors.push(`${name} has ${score[currency]} ${currency} but the ledger adds up to ${logged}`);
+      }
+    });
+  };
+
+  gameState.teams.forEach(team => check(team.name, team.members, team));
+  gameState.players.forEach((player, index) => {
+    if (!gameState.teams.some(team => team.members.includes(index))) check(player.name, [index], player);
+  });
+  return errors;
+}
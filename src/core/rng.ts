@@ -1,36 +1,159 @@
 /**
  * Deterministic random number generator using a seed
  * Ensures reproducible game results
+ *
+ * xoshiro128** (period 2^128 - 1) seeded through splitmix32.
+ * Named sub-streams (see stream()) are derived from the starting seed and the stream name,
+ * so drawing more numbers in one system (e.g. questions) never shifts another (e.g. dice).
  */
 
+/** Sub-streams used by the game rules */
+export type RNGStreamName = 'dice' | 'tiles' | 'yellow' | 'events' | 'questions' | 'cpu' | 'order' | 'minigames' | 'minigamePicks';
+
+/** Plain JSON-safe generator state (for saves) */
+export interface RNGState {
+  seed: number;
+  state: number[]; // xoshiro128** state words
+  streams: Record<string, RNGState>;
+}
+
+/**
+ * splitmix32 - expands a 32-bit seed into well-mixed state words
+ */
+function splitmix32(seed: number): () => number {
+  let x = seed >>> 0;
+  return () => {
+    x = (x + 0x9e3779b9) >>> 0;
+    let z = x;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+}
+
+/**
+ * FNV-1a hash of a stream name
+ */
+function hashName(name: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Fold any safe integer seed (e.g. Date.now()) into 32 bits
+ */
+function normalizeSeed(seed: number): number {
+  const value = Math.floor(Math.abs(seed));
+  return (value ^ Math.floor(value / 0x100000000)) >>> 0;
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
 export class RNG {
   private seed: number;
+  private state: Uint32Array = new Uint32Array(4);
+  private streams: Map<string, RNG> = new Map();
 
   constructor(seed: number = Date.now()) {
-    this.seed = seed;
+    this.seed = normalizeSeed(seed);
+    this.seedState(this.seed);
   }
 
   /**
-   * Get the current seed (for reproducibility)
+   * Get the starting seed (for reproducibility)
    */
   getSeed(): number {
     return this.seed;
   }
 
   /**
-   * Set a new seed
+   * Set a new seed (resets the generator and every sub-stream)
    */
   setSeed(seed: number): void {
-    this.seed = seed;
+    this.seed = normalizeSeed(seed);
+    this.seedState(this.seed);
+    this.streams.clear();
+  }
+
+  private seedState(seed: number): void {
+    const next = splitmix32(seed);
+    for (let i = 0; i < 4; i++) {
+      this.state[i] = next();
+    }
+    // xoshiro must never have an all-zero state
+    if (this.state.every(word => word === 0)) {
+      this.state[0] = 1;
+    }
   }
 
   /**
-   * Generate a random number between 0 and 1
-   * Uses a simple linear congruential generator
+   * Independent named sub-stream, created on first use
+   */
+  stream(name: RNGStreamName | string): RNG {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RNG(this.seed ^ hashName(name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Export the full generator state (including sub-streams)
+   */
+  exportState(): RNGState {
+    const streams: Record<string, RNGState> = {};
+    this.streams.forEach((stream, name) => {
+      streams[name] = stream.exportState();
+    });
+    return { seed: this.seed, state: Array.from(this.state), streams };
+  }
+
+  /**
+   * Restore a state produced by exportState()
+   */
+  importState(saved: RNGState): void {
+    if (!Array.isArray(saved.state) || saved.state.length !== 4) {
+      throw new Error('Invalid RNG state');
+    }
+    this.seed = saved.seed >>> 0;
+    this.state = Uint32Array.from(saved.state);
+    this.streams.clear();
+    Object.entries(saved.streams ?? {}).forEach(([name, streamState]) => {
+      const stream = new RNG(streamState.seed);
+      stream.importState(streamState);
+      this.streams.set(name, stream);
+    });
+  }
+
+  /**
+   * Next 32-bit output of xoshiro128**
+   */
+  private nextUint32(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result;
+  }
+
+  /**
+   * Generate a random number between 0 (inclusive) and 1 (exclusive)
    */
   random(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
+    return this.nextUint32() / 0x100000000;
   }
 
   /**
@@ -48,7 +171,7 @@ export class RNG {
   }
 
   /**
-   * Shuffle an array using Fisher-Yates algorithm (mutates the array)
+   * Shuffle an array using Fisher-Yates algorithm (returns a new array)
    */
   shuffle<T>(array: T[]): T[] {
     const result = [...array];
@@ -59,4 +182,3 @@ export class RNG {
     return result;
   }
 }
-
@@ -0,0 +1,188 @@
+import { GameState, Player, Team, Tile } from './game-state';
+import { RNG, RNGState } from './rng';
+import type { MatchAction } from './match-log';
+import { GameRules, cloneRules } from './game-rules';
+import { ItemType } from './items';
+import { FinalTurnsState } from './final-turns';
+import { PlayerStats, BonusAwardResult } from './bonus-awards';
+import { LedgerEntry, auditLedger } from './points-ledger';
+import { RoundMinigame } from './minigame-results';
+
+/**
+ * Save / resume support
+ * Serializes the GameState (plus the full RNG state) to a versioned JSON snapshot
+ * and keeps the latest one in localStorage so an interrupted match can be continued
+ */
+
+export const SNAPSHOT_VERSION = 19;
+
+const AUTOSAVE_KEY = 'majlis-game:autosave';
+
+export interface GameSnapshot {
+  version: number;
+  savedAt: number; // Timestamp (ms) of when the snapshot was taken
+  players: Player[];
+  teams: Team[];
+  tiles: Tile[];
+  starTileIndex: number;
+  bankPot: number;
+  turn: number;
+  currentPlayerIndex: number;
+  turnOrder: number[];
+  orderRolls: number[][];
+  orderRollers: number[];
+  currentState: string;
+  diceResult: number | null;
+  pendingPoints: number | null;
+  movesLeft: number | null;
+  chosenNext: number | null;
+  activeItem: ItemType | null;
+  goldenDiceValue: number | null;
+  opponentIndex: number | null;
+  finalTurns: FinalTurnsState | null;
+  minigameId: string | null;
+  roundMinigame: RoundMinigame | null;
+  recentMinigames: string[];
+  playerStats: PlayerStats[];
+  bonusAwards: BonusAwardResult[];
+  ledger: LedgerEntry[];
+  rngState: RNGState; // RNG (and sub-stream) state at the time of the snapshot
+  seed: number; // Starting seed of the match
+  actionLog: MatchAction[];
+  rules: GameRules;
+}
+
+function cloneRoundMinigame(round: RoundMinigame | null): RoundMinigame | null {
+  return round ? { ...round, participants: round.participants.map(participant => ({ ...participant })) } : null;
+}
+
+/**
+ * Create a plain JSON-safe snapshot of the game state
+ */
+export function serializeGameState(gameState: GameState): GameSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    players: gameState.players.map(player => ({ ...player, items: [...player.items] })),
+    teams: gameState.teams.map(team => ({ ...team, members: [...team.members] })),
+    tiles: gameState.tiles.map(tile => ({ ...tile, next: [...tile.next] })),
+    starTileIndex: gameState.starTileIndex,
+    bankPot: gameState.bankPot,
+    turn: gameState.turn,
+    currentPlayerIndex: gameState.currentPlayerIndex,
+    turnOrder: [...gameState.turnOrder],
+    orderRolls: gameState.orderRolls.map(rolls => [...rolls]),
+    orderRollers: [...gameState.orderRollers],
+    currentState: gameState.currentState,
+    diceResult: gameState.diceResult,
+    pendingPoints: gameState.pendingPoints,
+    movesLeft: gameState.movesLeft,
+    chosenNext: gameState.chosenNext,
+    activeItem: gameState.activeItem,
+    goldenDiceValue: gameState.goldenDiceValue,
+    opponentIndex: gameState.opponentIndex,
+    finalTurns: gameState.finalTurns ? { ...gameState.finalTurns } : null,
+    minigameId: gameState.minigameId,
+    roundMinigame: cloneRoundMinigame(gameState.roundMinigame),
+    recentMinigames: [...gameState.recentMinigames],
+    playerStats: gameState.playerStats.map(stats => ({ ...stats })),
+    bonusAwards: gameState.bonusAwards.map(result => ({ ...result, winners: [...result.winners] })),
+    ledger: gameState.ledger.map(entry => ({ ...entry })),
+    rngState: gameState.rng.exportState(),
+    seed: gameState.seed,
+    actionLog: gameState.actionLog.map(action => ({ ...action })),
+    rules: cloneRules(gameState.rules)
+  };
+}
+
+/**
+ * Rebuild a live game state from a snapshot
+ */
+export function restoreGameState(snapshot: GameSnapshot): GameState {
+  const rng = new RNG(snapshot.seed);
+  rng.importState(snapshot.rngState);
+
+  return {
+    players: snapshot.players.map(player => ({ ...player, items: [...player.items] })),
+    teams: snapshot.teams.map(team => ({ ...team, members: [...team.members] })),
+    currentPlayerIndex: snapshot.currentPlayerIndex,
+    turnOrder: [...snapshot.turnOrder],
+    orderRolls: snapshot.orderRolls.map(rolls => [...rolls]),
+    orderRollers: [...snapshot.orderRollers],
+    turn: snapshot.turn,
+    tiles: snapshot.tiles.map(tile => ({ ...tile, next: [...tile.next] })),
+    starTileIndex: snapshot.starTileIndex,
+    bankPot: snapshot.bankPot,
+    currentState: snapshot.currentState,
+    diceResult: snapshot.diceResult,
+    pendingPoints: snapshot.pendingPoints,
+    minigameScore: null,
+    movesLeft: snapshot.movesLeft,
+    chosenNext: snapshot.chosenNext,
+    activeItem: snapshot.activeItem,
+    goldenDiceValue: snapshot.goldenDiceValue,
+    opponentIndex: snapshot.opponentIndex,
+    finalTurns: snapshot.finalTurns ? { ...snapshot.finalTurns } : null,
+    minigameId: snapshot.minigameId,
+    roundMinigame: cloneRoundMinigame(snapshot.roundMinigame),
+    recentMinigames: [...snapshot.recentMinigames],
+    playerStats: snapshot.playerStats.map(stats => ({ ...stats })),
+    bonusAwards: snapshot.bonusAwards.map(result => ({ ...result, winners: [...result.winners] })),
+    ledger: snapshot.ledger.map(entry => ({ ...entry })),
+    rng,
+    seed: snapshot.seed,
+    actionLog: snapshot.actionLog.map(action => ({ ...action })),
+    rules: cloneRules(snapshot.rules)
+  };
+}
+
+/**
+ * Autosave the game state to localStorage
+ */
+export function saveGame(gameState: GameState): void {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(serializeGameState(gameState)));
+  } catch (error) {
+    console.warn('[SaveGame] Could not write autosave:', error);
+  }
+}
+
+/**
+ * Load the last autosaved snapshot, or null if there is none (or it is from an older version,
+ * or its scores don't add up to its points ledger)
+ */
+export function loadSavedGame(): GameSnapshot | null {
+  try {
+    const raw = localStorage.getItem(AUTOSAVE_KEY);
+    if (!raw) return null;
+
+    const snapshot = JSON.parse(raw) as GameSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      console.warn(`[SaveGame] Ignoring autosave with version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+      return null;
+    }
+    if (!Array.isArray(snapshot.players) || snapshot.players.length === 0 || !Array.isArray(snapshot.tiles)) {
+      return null;
+    }
+    const mismatches = auditLedger(snapshot);
+    if (mismatches.length > 0) {
+      console.warn(`[SaveGame] Ignoring autosave whose scores don't match its ledger: ${mismatches.join('; ')}`);
+      return null;
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn('[SaveGame] Could not read autosave:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove the autosave (e.g. once the match is over)
+ */
+export function clearSavedGame(): void {
+  try {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  } catch (error) {
+    console.warn('[SaveGame] Could not clear autosave:', error);
+  }
+}
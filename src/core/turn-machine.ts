@@ -1,29 +1,63 @@
-import { GameState as GameStateType, getYellowTilePoints, getMinigamePoints } from './game-state';
-import { TileType, DICE_MIN, DICE_MAX, MAX_TURNS, TILE_REWARDS, GameState, MINIGAME_MAX_POINTS } from './constants';
+import {
+  GameState as GameStateType,
+  Player,
+  getYellowTilePoints,
+  areTeammates,
+  rankPlayers,
+  rankTeams,
+  pickStarTile
+} from './game-state';
+import type { MatchAction } from './match-log';
+import { TileType, DICE_MIN, DICE_MAX, MINIGAME_REPEAT_WINDOW } from './constants';
+import { ItemType, ItemUseOptions, ITEMS, MAX_ITEMS, STEAL_AMOUNT } from './items';
+import { getNextTiles } from './board-layout';
+import { BoardEventType, COIN_RAIN_AMOUNT, TAX_AMOUNT } from './board-events';
+import { PASS_HOOKS } from './pass-hooks';
+import { findOrderTies, decideTurnOrder } from './turn-order';
+import { FinalTurnsEffect, LAST_PLACE_BONUS, FINAL_TURNS_TILE_MULTIPLIER, getFinalTurnsStart } from './final-turns';
+import { decideBonusAward } from './bonus-awards';
+import { addCoins, addStars } from './points-ledger';
+import {
+  MinigameResults,
+  MinigameFormat,
+  validateMinigameResults,
+  getMinigamePayouts,
+  getPlacement
+} from './minigame-results';
+import { pickMinigame } from './minigame-catalog';
+import { GameEventBus } from './game-events';
+import { TurnState, TurnAction, TURN_STATES, canPerform, findTransition, describeTurnState, TurnStateInfo } from './turn-states';
 
 /**
  * Turn state machine - manages the turn flow
- * States: TurnStart → RollDice → Move → ResolveTile → OptionalMinigame → EndTurn → GameEnd
+ * The match opens with TurnOrder (every player rolls, highest moves first), then each turn:
+ * States: TurnStart (or ItemPhase when holding items) → RollDice → Move (⇄ JunctionChoice) → ResolveTile
+ *   → OptionalMinigame / Shop / ChooseOpponent (→ Duel) → EndTurn (→ RoundMinigame once everyone has played) → GameEnd
+ * Allowed transitions, their guards and the states' entry / exit actions come from the TURN_STATES table
+ * Every transition and notable action is emitted on the GameEventBus - an action's events
+ * (and the pointsChanged events for its ledger entries) come before the stateChanged it causes
  */
 
-export type TurnState =
-  | 'TURN_START'
-  | 'ROLL_DICE'
-  | 'MOVE'
-  | 'RESOLVE_TILE'
-  | 'OPTIONAL_MINIGAME'
-  | 'END_TURN'
-  | 'GAME_END';
+export type { TurnState };
 
 export class TurnMachine {
   private state: TurnState;
   private gameState: GameStateType;
-  private onStateChange?: (state: TurnState) => void;
+  private events: GameEventBus;
+  private ledgerCursor: number; // Ledger entries already emitted as pointsChanged
 
-  constructor(gameState: GameStateType, onStateChange?: (state: TurnState) => void) {
+  constructor(gameState: GameStateType, events: GameEventBus = new GameEventBus()) {
     this.gameState = gameState;
     this.state = gameState.currentState as TurnState;
-    this.onStateChange = onStateChange;
+    this.events = events;
+    this.ledgerCursor = gameState.ledger.length;
+  }
+
+  /**
+   * Event bus the match's events are emitted on
+   */
+  getEvents(): GameEventBus {
+    return this.events;
   }
 
   /**
@@ -34,23 +68,60 @@ export class TurnMachine {
   }
 
   /**
-   * Transition to a new state
+   * Whether an action may be performed in the current state
    */
-  private setState(newState: TurnState): void {
-    this.state = newState;
-    this.gameState.currentState = newState;
-    if (this.onStateChange) {
-      this.onStateChange(newState);
+  canPerform(action: TurnAction): boolean {
+    return canPerform(this.state, action);
+  }
+
+  /**
+   * Current state with its allowed actions and transitions (for the dev tools visualizer)
+   */
+  describeState(): TurnStateInfo {
+    return describeTurnState(this.state, this.gameState);
+  }
+
+  /**
+   * Throw unless the action may be performed in the current state
+   */
+  private assertAction(action: TurnAction): void {
+    if (!canPerform(this.state, action)) {
+      throw new Error(`Cannot ${action} in state: ${this.state}`);
     }
   }
 
   /**
-   * Force state for testing purposes (DEV ONLY)
+   * Transition to a new state - the transition must be in the table and its guard must pass,
+   * then the old state's exit action and the new state's entry action run
    */
-  forceStateForTesting(newState: TurnState): void {
-    console.log(`[DEBUG] Forcing state to: ${newState}`);
+  private setState(newState: TurnState): void {
+    const previous = this.state;
+    const transition = findTransition(previous, newState);
+    if (!transition) {
+      throw new Error(`No transition from ${previous} to ${newState}`);
+    }
+    if (transition.guard && !transition.guard(this.gameState)) {
+      throw new Error(`Transition ${previous} → ${newState} refused by its guard (${transition.description})`);
+    }
+
+    const context = { gameState: this.gameState, events: this.events, from: previous, to: newState };
+    TURN_STATES[previous].onExit?.(context);
     this.state = newState;
     this.gameState.currentState = newState;
+    TURN_STATES[newState].onEnter?.(context);
+    this.events.emit('stateChanged', { state: newState, previous });
+  }
+
+  /**
+   * Append an action to the match log (used for deterministic replay)
+   * and emit pointsChanged for the ledger entries it produced
+   */
+  private record(action: MatchAction): void {
+    this.gameState.actionLog.push(action);
+    const ledger = this.gameState.ledger;
+    for (; this.ledgerCursor < ledger.length; this.ledgerCursor++) {
+      this.events.emit('pointsChanged', ledger[this.ledgerCursor]);
+    }
   }
 
   /**
@@ -60,58 +131,317 @@ export class TurnMachine {
     return this.gameState.players[this.gameState.currentPlayerIndex];
   }
 
+  /**
+   * Start the match with the turn-order roll-off
+   */
+  startMatch(): void {
+    this.gameState.orderRolls = this.gameState.players.map(() => []);
+    this.gameState.orderRollers = this.gameState.players.map((_, index) => index);
+    this.gameState.currentPlayerIndex = this.gameState.orderRollers[0];
+    this.setState('TURN_ORDER');
+  }
+
+  /**
+   * Roll for the turn order (current roller) - returns the value
+   * After the last roll of a round, tied players roll again; without ties the order is set and turn 1 starts
+   */
+  rollForOrder(): number {
+    this.assertAction('rollForOrder');
+
+    const playerIndex = this.gameState.currentPlayerIndex;
+    const value = this.gameState.rng.stream('order').randomInt(DICE_MIN, DICE_MAX);
+    this.gameState.orderRolls[playerIndex].push(value);
+    this.gameState.diceResult = value;
+    this.record({ type: 'rollOrder', playerIndex, value });
+    this.events.emit('diceRolled', { playerIndex, value, forOrder: true });
+
+    const rollers = this.gameState.orderRollers;
+    const next = rollers.indexOf(playerIndex) + 1;
+    if (next < rollers.length) {
+      this.gameState.currentPlayerIndex = rollers[next];
+      this.setState('TURN_ORDER');
+      return value;
+    }
+
+    const tied = findOrderTies(this.gameState.orderRolls);
+    if (tied.length > 0) {
+      this.gameState.orderRollers = tied;
+      this.gameState.currentPlayerIndex = tied[0];
+      this.setState('TURN_ORDER');
+      return value;
+    }
+
+    this.gameState.turnOrder = decideTurnOrder(this.gameState.orderRolls, this.gameState.teams);
+    this.gameState.orderRollers = [];
+    this.gameState.currentPlayerIndex = this.gameState.turnOrder[0];
+    this.gameState.diceResult = null;
+    this.startTurn();
+    return value;
+  }
+
   /**
    * Start a new turn
    */
   startTurn(): void {
     // Check if game over
-    if (this.gameState.turn > MAX_TURNS) {
-      this.setState('GAME_END');
+    if (this.gameState.turn > this.gameState.rules.maxTurns) {
+      this.endMatch();
       return;
     }
-    this.setState('TURN_START');
+    if (this.gameState.finalTurns === null && this.gameState.turn === getFinalTurnsStart(this.gameState.rules.maxTurns)) {
+      this.startFinalTurns();
+    }
+    // Players holding items get a chance to use one before rolling
+    const player = this.getCurrentPlayer();
+    this.setState(player && player.items.length > 0 ? 'ITEM_PHASE' : 'TURN_START');
   }
 
   /**
-   * Roll the dice (1-6)
+   * The last turns begin - pick the final-turns effect (doubled tiles or a last-place bonus)
    */
-  rollDice(): number {
-    if (this.state !== 'TURN_START' && this.state !== 'ROLL_DICE') {
-      throw new Error(`Cannot roll dice in state: ${this.state}`);
+  private startFinalTurns(): void {
+    const effect = this.gameState.rng.stream('events').pick(Object.values(FinalTurnsEffect));
+    this.gameState.finalTurns = { effect };
+
+    if (effect === FinalTurnsEffect.LAST_PLACE_BONUS) {
+      // In team mode the bonus goes into the last team's pool (through its first member)
+      const teams = this.gameState.teams;
+      const targetIndex = teams.length > 0
+        ? rankTeams(teams)[teams.length - 1].members[0]
+        : this.gameState.players.indexOf(rankPlayers(this.gameState.players)[this.gameState.players.length - 1]);
+      addCoins(this.gameState, this.gameState.players[targetIndex], LAST_PLACE_BONUS, 'final_turns');
+      this.gameState.finalTurns = { effect, targetIndex, amount: LAST_PLACE_BONUS };
+    }
+
+    this.record({ type: 'finalTurns', playerIndex: this.gameState.currentPlayerIndex, ...this.gameState.finalTurns });
+  }
+
+  /**
+   * Green / red tile value, doubled during the final turns when that effect is active
+   */
+  private getTileValue(value: number): number {
+    return this.gameState.finalTurns?.effect === FinalTurnsEffect.DOUBLE_TILES
+      ? value * FINAL_TURNS_TILE_MULTIPLIER
+      : value;
+  }
+
+  /**
+   * Use an item from the current player's inventory (one per turn, before rolling)
+   */
+  useItem(item: ItemType, options: ItemUseOptions = {}): void {
+    this.assertAction('useItem');
+
+    const player = this.getCurrentPlayer();
+    const slot = player.items.indexOf(item);
+    if (slot === -1) {
+      throw new Error(`${player.name} does not hold item: ${item}`);
+    }
+
+    const diceValue = options.diceValue;
+    if (item === ItemType.GOLDEN_DICE &&
+      (diceValue === undefined || !Number.isInteger(diceValue) || diceValue < DICE_MIN || diceValue > DICE_MAX)) {
+      throw new Error(`Golden dice needs a value between ${DICE_MIN} and ${DICE_MAX}`);
+    }
+
+    player.items.splice(slot, 1);
+    this.gameState.activeItem = item;
+
+    let targetIndex: number | undefined;
+    let amount: number | undefined;
+    switch (item) {
+      case ItemType.GOLDEN_DICE:
+        this.gameState.goldenDiceValue = diceValue!;
+        break;
+      case ItemType.STEAL:
+        targetIndex = this.findStealTarget();
+        if (targetIndex !== -1) {
+          const target = this.gameState.players[targetIndex];
+          amount = Math.min(STEAL_AMOUNT, target.coins);
+          addCoins(this.gameState, target, -amount, 'steal');
+          addCoins(this.gameState, player, amount, 'steal');
+        }
+        break;
     }
 
-    const diceValue = this.gameState.rng.randomInt(DICE_MIN, DICE_MAX);
+    this.record({
+      type: 'useItem',
+      playerIndex: this.gameState.currentPlayerIndex,
+      item,
+      diceValue: item === ItemType.GOLDEN_DICE ? diceValue : undefined,
+      targetIndex,
+      amount
+    });
+    this.setState('ROLL_DICE');
+  }
+
+  /**
+   * Opponent with the most coins (earliest seat on ties), -1 if nobody has any
+   */
+  private findStealTarget(): number {
+    let targetIndex = -1;
+    this.gameState.players.forEach((player, index) => {
+      if (index === this.gameState.currentPlayerIndex || player.coins === 0) return;
+      if (areTeammates(player, this.getCurrentPlayer())) return;
+      if (targetIndex === -1 || player.coins > this.gameState.players[targetIndex].coins) {
+        targetIndex = index;
+      }
+    });
+    return targetIndex;
+  }
+
+  /**
+   * Roll the dice (1-6, 2-12 with the double dice, the chosen value with the golden dice)
+   * Rolling from ITEM_PHASE skips using an item
+   */
+  rollDice(): number {
+    this.assertAction('rollDice');
+
+    const dice = this.gameState.rng.stream('dice');
+    let diceValue: number;
+    if (this.gameState.activeItem === ItemType.GOLDEN_DICE && this.gameState.goldenDiceValue !== null) {
+      diceValue = this.gameState.goldenDiceValue;
+    } else {
+      diceValue = dice.randomInt(DICE_MIN, DICE_MAX);
+      if (this.gameState.activeItem === ItemType.DOUBLE_DICE) {
+        diceValue += dice.randomInt(DICE_MIN, DICE_MAX);
+      }
+    }
     this.gameState.diceResult = diceValue;
+    this.record({ type: 'rollDice', playerIndex: this.gameState.currentPlayerIndex, value: diceValue });
+    this.events.emit('diceRolled', { playerIndex: this.gameState.currentPlayerIndex, value: diceValue, forOrder: false });
     this.setState('MOVE');
     return diceValue;
   }
 
   /**
-   * Move pawn by dice result
-   * Moves one tile at a time, wrapping around at tile 50
+   * Move pawn by dice result (backwards with the reverse item), following the tile graph
+   * Walks until the steps run out or a junction is reached - then waits in JUNCTION_CHOICE
+   * for chooseDirection() and continues with the next movePawn() call
+   * Pass-through hooks run on every tile walked and are logged as passTile actions after the move
+   * Returns the tiles walked in this segment (for the animation)
    */
-  movePawn(moveCallback?: (newPosition: number) => void): void {
-    if (this.state !== 'MOVE') {
-      throw new Error(`Cannot move in state: ${this.state}`);
-    }
+  movePawn(moveCallback?: (newPosition: number) => void): number[] {
+    this.assertAction('movePawn');
 
     if (this.gameState.diceResult === null) {
       throw new Error('Cannot move without dice result');
     }
 
     const player = this.getCurrentPlayer();
+    const direction = this.getMoveDirection();
+    if (this.gameState.movesLeft === null) {
+      this.gameState.movesLeft = this.gameState.diceResult;
+    }
+
+    const startPosition = player.pawnPosition;
+    const path: number[] = [];
+    let position = startPosition;
+    while (this.gameState.movesLeft > 0) {
+      let next: number;
+      if (this.gameState.chosenNext !== null) {
+        next = this.gameState.chosenNext;
+        this.gameState.chosenNext = null;
+      } else {
+        const options = this.getNextTiles(position, direction);
+        if (options.length > 1) break; // Junction - the player picks the way
+        next = options[0];
+      }
+      position = next;
+      path.push(next);
+      this.gameState.movesLeft--;
+    }
 
-    // Move step by step (handled by animation, but update final position)
-    const steps = this.gameState.diceResult;
-    const newPosition = (player.pawnPosition + steps) % 50;
-    player.pawnPosition = newPosition; // Update INDIVIDUAL player position
+    player.pawnPosition = position; // Update INDIVIDUAL player position
+    this.gameState.playerStats[this.gameState.currentPlayerIndex].distance += path.length;
+    const atJunction = this.gameState.movesLeft > 0;
+    this.record({
+      type: 'movePawn',
+      playerIndex: this.gameState.currentPlayerIndex,
+      from: startPosition,
+      to: position,
+      steps: path.length,
+      direction,
+      path
+    });
+    this.events.emit('pawnMoved', {
+      playerIndex: this.gameState.currentPlayerIndex,
+      from: startPosition,
+      to: position,
+      path: [...path],
+      direction
+    });
+    this.runPassHooks(startPosition, path, direction, !atJunction);
 
     if (moveCallback) {
-      moveCallback(newPosition);
+      moveCallback(position);
     }
 
-    // After movement completes (handled by animation callback), resolve tile
-    this.setState('RESOLVE_TILE');
+    if (atJunction) {
+      this.setState('JUNCTION_CHOICE');
+    } else {
+      // After movement completes (handled by animation callback), resolve tile
+      this.gameState.movesLeft = null;
+      this.setState('RESOLVE_TILE');
+    }
+    return path;
+  }
+
+  private getNextTiles(position: number, direction: 1 | -1): number[] {
+    return getNextTiles(this.gameState.tiles.map(tile => tile.next), position, direction);
+  }
+
+  /**
+   * Tiles the current player can choose from at a junction
+   */
+  getJunctionOptions(): number[] {
+    return this.getNextTiles(this.getCurrentPlayer().pawnPosition, this.getMoveDirection());
+  }
+
+  /**
+   * Pick which way to go at a junction, then movement continues in MOVE
+   */
+  chooseDirection(tileIndex: number): void {
+    this.assertAction('chooseDirection');
+
+    const options = this.getJunctionOptions();
+    if (!options.includes(tileIndex)) {
+      throw new Error(`Tile ${tileIndex} is not reachable from here (options: ${options.join(', ')})`);
+    }
+
+    this.gameState.chosenNext = tileIndex;
+    this.record({
+      type: 'chooseDirection',
+      playerIndex: this.gameState.currentPlayerIndex,
+      from: this.getCurrentPlayer().pawnPosition,
+      to: tileIndex
+    });
+    this.setState('MOVE');
+  }
+
+  /**
+   * Run the pass-through hooks for every tile of the path (the last one is the landing tile when the move ends)
+   */
+  private runPassHooks(from: number, path: number[], direction: 1 | -1, isFinalSegment: boolean): void {
+    const player = this.getCurrentPlayer();
+    const playerIndex = this.gameState.currentPlayerIndex;
+
+    path.forEach((tileIndex, step) => {
+      const isLanding = isFinalSegment && step === path.length - 1;
+      PASS_HOOKS.forEach(hook => {
+        const fromIndex = step === 0 ? from : path[step - 1];
+        const result = hook.apply({ gameState: this.gameState, player, playerIndex, fromIndex, tileIndex, direction, isLanding });
+        if (result) {
+          this.record({ type: 'passTile', playerIndex, hook: hook.type, tileIndex, step, ...result });
+        }
+      });
+    });
+  }
+
+  /**
+   * Direction of this turn's move: 1 = forward, -1 = backwards (reverse item)
+   */
+  getMoveDirection(): 1 | -1 {
+    return this.gameState.activeItem === ItemType.REVERSE ? -1 : 1;
   }
 
   /**
@@ -119,9 +449,7 @@ export class TurnMachine {
    * Used when handling movement animation externally
    */
   transitionToResolveTile(): void {
-    if (this.state !== 'MOVE') {
-      throw new Error(`Cannot transition to RESOLVE_TILE from state: ${this.state}`);
-    }
+    this.assertAction('transitionToResolveTile');
     this.setState('RESOLVE_TILE');
   }
 
@@ -129,57 +457,283 @@ export class TurnMachine {
    * Resolve the tile the pawn landed on
    */
   resolveTile(): void {
-    if (this.state !== 'RESOLVE_TILE') {
-      throw new Error(`Cannot resolve tile in state: ${this.state}`);
-    }
+    this.assertAction('resolveTile');
 
     const player = this.getCurrentPlayer();
     const currentTile = this.gameState.tiles[player.pawnPosition];
     this.gameState.pendingPoints = null;
+    const rewards = this.gameState.rules.rewards;
+    let nextState: TurnState = 'END_TURN';
+    let warpTo: number | undefined;
+    let event: BoardEventType | undefined;
 
     switch (currentTile.type) {
       case TileType.GREEN:
-        this.gameState.pendingPoints = TILE_REWARDS.GREEN;
-        player.points += TILE_REWARDS.GREEN;
-        this.setState('END_TURN');
+        this.gameState.pendingPoints = this.getTileValue(rewards.green);
+        addCoins(this.gameState, player, this.gameState.pendingPoints, 'green');
         break;
 
       case TileType.RED:
-        this.gameState.pendingPoints = TILE_REWARDS.RED;
-        player.points += TILE_REWARDS.RED;
-        this.setState('END_TURN');
+        // The shield item blocks the penalty
+        const redPoints = this.gameState.activeItem === ItemType.SHIELD ? 0 : this.getTileValue(rewards.red);
+        this.gameState.playerStats[this.gameState.currentPlayerIndex].redTiles++;
+        this.gameState.pendingPoints = redPoints;
+        addCoins(this.gameState, player, redPoints, 'red');
         break;
 
       case TileType.YELLOW:
-        const yellowPoints = getYellowTilePoints(this.gameState.rng);
+        const yellowPoints = getYellowTilePoints(this.gameState.rng.stream('yellow'), this.gameState.rules);
         this.gameState.pendingPoints = yellowPoints;
-        player.points += yellowPoints;
-        this.setState('END_TURN');
+        addCoins(this.gameState, player, yellowPoints, 'yellow');
         break;
 
       case TileType.BLUE:
-        // Minigame tile - don't apply points yet
-        this.setState('OPTIONAL_MINIGAME');
+        // Minigame tile - don't apply points yet (the current player, or their team, plays as one side)
+        this.gameState.minigameId = this.pickMinigame(1);
+        nextState = 'OPTIONAL_MINIGAME';
+        break;
+
+      case TileType.SHOP:
+        // Wait for buyItem / leaveShop
+        nextState = 'SHOP';
+        break;
+
+      case TileType.WARP:
+        if (currentTile.pair !== undefined) {
+          warpTo = currentTile.pair;
+          player.pawnPosition = warpTo;
+        }
+        break;
+
+      case TileType.SWAP:
+      case TileType.DUEL:
+        // Wait for chooseOpponent - nothing happens without opponents
+        if (this.getOpponentOptions().length > 0) {
+          nextState = 'CHOOSE_OPPONENT';
+        }
+        break;
+
+      case TileType.BANK:
+        this.gameState.pendingPoints = this.gameState.bankPot;
+        addCoins(this.gameState, player, this.gameState.bankPot, 'bank');
+        this.gameState.bankPot = 0;
+        break;
+
+      case TileType.EVENT:
+        event = this.gameState.rng.stream('events').pick(Object.values(BoardEventType));
+        this.applyBoardEvent(event);
         break;
 
-      default:
-        this.setState('END_TURN');
+      case TileType.TOLL:
+        // Claim the toll - other players pay when they pass it
+        currentTile.owner = this.gameState.currentPlayerIndex;
+        break;
     }
+
+    // Record before the transition - state listeners may already act on the next state
+    this.record({
+      type: 'resolveTile',
+      playerIndex: this.gameState.currentPlayerIndex,
+      tileIndex: player.pawnPosition,
+      tileType: currentTile.type,
+      points: this.gameState.pendingPoints,
+      warpTo,
+      event,
+      minigameId: this.gameState.minigameId ?? undefined
+    });
+    this.events.emit('tileResolved', {
+      playerIndex: this.gameState.currentPlayerIndex,
+      tileIndex: player.pawnPosition,
+      tileType: currentTile.type,
+      points: this.gameState.pendingPoints,
+      event
+    });
+    this.setState(nextState);
   }
 
   /**
-   * Complete minigame and apply points (trivia: correct = true, incorrect = false)
+   * Apply a board-wide event
    */
-  completeMinigame(correct: boolean): void {
-    if (this.state !== 'OPTIONAL_MINIGAME') {
-      throw new Error(`Cannot complete minigame in state: ${this.state}`);
+  private applyBoardEvent(event: BoardEventType): void {
+    const players = this.gameState.players;
+    switch (event) {
+      case BoardEventType.COIN_RAIN:
+        players.forEach(player => addCoins(this.gameState, player, COIN_RAIN_AMOUNT, 'event'));
+        this.gameState.pendingPoints = COIN_RAIN_AMOUNT;
+        break;
+      case BoardEventType.TAX:
+        players.forEach(player => {
+          const amount = Math.min(TAX_AMOUNT, player.coins);
+          addCoins(this.gameState, player, -amount, 'event');
+          this.gameState.bankPot += amount;
+        });
+        this.gameState.pendingPoints = -TAX_AMOUNT;
+        break;
+      case BoardEventType.STAR_MOVE:
+        this.gameState.starTileIndex = pickStarTile(
+          this.gameState.rng.stream('stars'),
+          this.gameState.rules.tileCount,
+          this.gameState.starTileIndex
+        );
+        break;
+      case BoardEventType.PAWN_SHUFFLE: {
+        const positions = this.gameState.rng.stream('events').shuffle(players.map(player => player.pawnPosition));
+        players.forEach((player, i) => {
+          player.pawnPosition = positions[i];
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Players the current player can pick on a swap / duel tile
+   */
+  getOpponentOptions(): number[] {
+    return this.gameState.players
+      .map((_, index) => index)
+      .filter(index => index !== this.gameState.currentPlayerIndex)
+      .filter(index => !areTeammates(this.gameState.players[index], this.getCurrentPlayer()));
+  }
+
+  /**
+   * Pick the opponent for the swap / duel tile the current player is on
+   * Swap: trade places and end the turn - Duel: wait for completeDuel()
+   */
+  chooseOpponent(targetIndex: number): void {
+    this.assertAction('chooseOpponent');
+    if (!this.getOpponentOptions().includes(targetIndex)) {
+      throw new Error(`Player ${targetIndex} cannot be chosen as an opponent`);
     }
 
     const player = this.getCurrentPlayer();
-    this.gameState.minigameScore = correct ? 1 : 0; // Store as 1 for correct, 0 for incorrect
-    const minigamePoints = getMinigamePoints(correct);
-    this.gameState.pendingPoints = minigamePoints;
-    player.points += minigamePoints;
+    const tileType = this.gameState.tiles[player.pawnPosition].type;
+    const target = this.gameState.players[targetIndex];
+
+    let nextState: TurnState = 'END_TURN';
+    if (tileType === TileType.SWAP) {
+      [player.pawnPosition, target.pawnPosition] = [target.pawnPosition, player.pawnPosition];
+    } else {
+      this.gameState.opponentIndex = targetIndex;
+      nextState = 'DUEL';
+    }
+
+    this.record({ type: 'chooseOpponent', playerIndex: this.gameState.currentPlayerIndex, targetIndex, tileType });
+    this.setState(nextState);
+  }
+
+  /**
+   * Complete a duel minigame - both players are ranked 1v1 and the winner takes rules.rewards.duelStake coins from the loser
+   * A draw (both ranked 1) moves no coins
+   */
+  completeDuel(results: MinigameResults): void {
+    this.assertAction('completeDuel');
+    const opponentIndex = this.gameState.opponentIndex;
+    if (opponentIndex === null) {
+      throw new Error('Cannot complete a duel without an opponent');
+    }
+    if (results.format !== '1v1') {
+      throw new Error(`A duel is played 1v1 (got ${results.format})`);
+    }
+    validateMinigameResults(results, this.gameState.players.length);
+    const playerIndex = this.gameState.currentPlayerIndex;
+    const challenger = getPlacement(results, playerIndex);
+    const defender = getPlacement(results, opponentIndex);
+    if (!challenger || !defender) {
+      throw new Error(`A duel is played by players ${playerIndex} and ${opponentIndex}`);
+    }
+
+    let amount = 0;
+    if (challenger.rank !== defender.rank) {
+      const [winnerIndex, loserIndex] = challenger.rank === 1 ? [playerIndex, opponentIndex] : [opponentIndex, playerIndex];
+      this.gameState.playerStats[winnerIndex].minigamesWon++;
+      amount = Math.min(this.gameState.rules.rewards.duelStake, this.gameState.players[loserIndex].coins);
+      addCoins(this.gameState, this.gameState.players[loserIndex], -amount, 'duel');
+      addCoins(this.gameState, this.gameState.players[winnerIndex], amount, 'duel');
+    }
+    const challengerWon = challenger.rank < defender.rank;
+    this.gameState.minigameScore = challenger.rank;
+    this.gameState.pendingPoints = challengerWon ? amount : -amount;
+
+    this.record({ type: 'completeDuel', playerIndex, opponentIndex, results, amount });
+    this.events.emit('minigameFinished', {
+      playerIndex,
+      kind: 'duel',
+      won: challengerWon,
+      points: this.gameState.pendingPoints,
+      results
+    });
+    this.setState('END_TURN');
+  }
+
+  /**
+   * Buy an item in the shop, ends the shop visit
+   */
+  buyItem(item: ItemType): void {
+    this.assertAction('buyItem');
+
+    const player = this.getCurrentPlayer();
+    const price = ITEMS[item].price;
+    if (player.coins < price) {
+      throw new Error(`${player.name} cannot afford ${item} (${price} coins)`);
+    }
+    if (player.items.length >= MAX_ITEMS) {
+      throw new Error(`${player.name} already holds ${MAX_ITEMS} items`);
+    }
+
+    addCoins(this.gameState, player, -price, 'shop');
+    player.items.push(item);
+    this.record({ type: 'buyItem', playerIndex: this.gameState.currentPlayerIndex, item, price });
+    this.setState('END_TURN');
+  }
+
+  /**
+   * Leave the shop without buying anything
+   */
+  leaveShop(): void {
+    this.assertAction('leaveShop');
+    this.record({ type: 'leaveShop', playerIndex: this.gameState.currentPlayerIndex });
+    this.setState('END_TURN');
+  }
+
+  /**
+   * Complete the blue-tile minigame - every participant is paid for their placement
+   * The current player must take part; solo, free-for-all, 1v3 and 2v2 results are all accepted
+   */
+  completeMinigame(results: MinigameResults): void {
+    this.assertAction('completeMinigame');
+    validateMinigameResults(results, this.gameState.players.length);
+    const placement = getPlacement(results, this.gameState.currentPlayerIndex);
+    if (!placement) {
+      throw new Error(`Player ${this.gameState.currentPlayerIndex} did not take part in the minigame`);
+    }
+
+    const payouts = getMinigamePayouts(results, this.gameState.rules);
+    results.placements.forEach((other, i) => {
+      const participant = this.gameState.players[other.playerIndex];
+      if (other.rank === 1) {
+        this.gameState.playerStats[other.playerIndex].minigamesWon++;
+      }
+      addCoins(this.gameState, participant, payouts[i], 'minigame', participant.pawnPosition);
+    });
+
+    const won = placement.rank === 1;
+    const points = payouts[results.placements.indexOf(placement)];
+    this.gameState.minigameScore = placement.rank;
+    this.gameState.pendingPoints = points;
+    this.record({
+      type: 'completeMinigame',
+      playerIndex: this.gameState.currentPlayerIndex,
+      results,
+      payouts
+    });
+    this.events.emit('minigameFinished', {
+      playerIndex: this.gameState.currentPlayerIndex,
+      kind: 'blue',
+      won,
+      points,
+      results
+    });
     this.setState('END_TURN');
   }
 
@@ -187,30 +741,129 @@ export class TurnMachine {
    * End the current turn and move to next
    */
   endTurn(): void {
-    if (this.state !== 'END_TURN') {
-      throw new Error(`Cannot end turn in state: ${this.state}`);
-    }
+    this.assertAction('endTurn');
 
-    // Advance to next player
-    const numPlayers = this.gameState.players.length;
-    this.gameState.currentPlayerIndex = (this.gameState.currentPlayerIndex + 1) % numPlayers;
+    this.record({ type: 'endTurn', playerIndex: this.gameState.currentPlayerIndex, turn: this.gameState.turn });
 
-    // If we wrapped around to player 0, increment global turn counter
-    if (this.gameState.currentPlayerIndex === 0) {
+    // Advance to the next player in the turn order
+    const order = this.gameState.turnOrder;
+    const position = (order.indexOf(this.gameState.currentPlayerIndex) + 1) % order.length;
+    this.gameState.currentPlayerIndex = order[position];
+
+    // If we wrapped around to the first player, increment global turn counter - and everyone plays a minigame
+    if (position === 0) {
       this.gameState.turn++;
+      if (this.startRoundMinigame()) return;
     }
 
-    this.gameState.diceResult = null;
-    this.gameState.pendingPoints = null;
-    this.gameState.minigameScore = null;
-
-    if (this.gameState.turn > MAX_TURNS) {
-      this.setState('GAME_END');
+    // Per-turn fields are cleared by END_TURN's exit action
+    if (this.gameState.turn > this.gameState.rules.maxTurns) {
+      this.endMatch();
     } else {
       this.startTurn();
     }
   }
 
+  /**
+   * Pick a minigame from MINIGAME_CATALOG - weighted, from the 'minigamePicks' stream so replays pick the same ones,
+   * and never one of the last MINIGAME_REPEAT_WINDOW picks while another suits the player count
+   * Returns null when no catalog minigame suits it
+   */
+  private pickMinigame(playerCount: number): string | null {
+    const picked = pickMinigame(this.gameState.rng.stream('minigamePicks'), {
+      playerCount,
+      recent: this.gameState.recentMinigames
+    });
+    if (!picked) return null;
+
+    this.gameState.recentMinigames = [...this.gameState.recentMinigames, picked.id].slice(-MINIGAME_REPEAT_WINDOW);
+    return picked.id;
+  }
+
+  /**
+   * The round is over - pick a minigame for every player from the catalog (one that suits the player count)
+   * Returns false when no catalog minigame suits it
+   */
+  private startRoundMinigame(): boolean {
+    const players = this.gameState.players;
+    const minigameId = this.pickMinigame(players.length);
+    if (minigameId === null) return false;
+
+    // Teams play 2v2 as their own sides
+    const format: MinigameFormat = players.length === 1 ? 'solo' : this.gameState.teams.length > 0 ? '2v2' : 'free_for_all';
+    const participants = this.gameState.turnOrder.map(playerIndex => format === '2v2'
+      ? { playerIndex, side: this.gameState.teams.findIndex(team => team.members.includes(playerIndex)) }
+      : { playerIndex });
+    this.gameState.roundMinigame = { minigameId, format, participants };
+
+    this.record({ type: 'roundMinigame', playerIndex: this.gameState.currentPlayerIndex, round: this.gameState.turn - 1, minigameId, format });
+    this.setState('ROUND_MINIGAME');
+    return true;
+  }
+
+  /**
+   * Complete the end-of-round minigame - everyone is paid for their placement, then the next round starts
+   */
+  completeRoundMinigame(results: MinigameResults): void {
+    this.assertAction('completeRoundMinigame');
+    const round = this.gameState.roundMinigame;
+    if (!round) {
+      throw new Error('No round minigame is being played');
+    }
+    validateMinigameResults(results, this.gameState.players.length);
+    if (results.format !== round.format ||
+      round.participants.some(participant => !getPlacement(results, participant.playerIndex))) {
+      throw new Error(`Round minigame results must rank every player (${round.format})`);
+    }
+
+    const payouts = getMinigamePayouts(results, this.gameState.rules);
+    results.placements.forEach((placement, i) => {
+      const participant = this.gameState.players[placement.playerIndex];
+      if (placement.rank === 1) {
+        this.gameState.playerStats[placement.playerIndex].minigamesWon++;
+      }
+      addCoins(this.gameState, participant, payouts[i], 'round_minigame', participant.pawnPosition);
+    });
+
+    const placement = getPlacement(results, this.gameState.currentPlayerIndex)!;
+    this.record({
+      type: 'completeRoundMinigame',
+      playerIndex: this.gameState.currentPlayerIndex,
+      minigameId: round.minigameId,
+      results,
+      payouts
+    });
+    this.events.emit('minigameFinished', {
+      playerIndex: this.gameState.currentPlayerIndex,
+      kind: 'round',
+      won: placement.rank === 1,
+      points: payouts[results.placements.indexOf(placement)],
+      results
+    });
+    this.gameState.roundMinigame = null;
+    this.startTurn();
+  }
+
+  /**
+   * Hand out the bonus awards from the rules (before the final ranking), then end the game
+   * Teammates share their stars, so a team tied with itself for an award only gets it once
+   */
+  private endMatch(): void {
+    const stars = this.gameState.rules.rewards.bonusAwardStars;
+    const players = this.gameState.players;
+    this.gameState.bonusAwards = this.gameState.rules.bonusAwards.map(award => {
+      const result = decideBonusAward(award, this.gameState.playerStats, stars);
+      result.winners = result.winners.filter((index, i) =>
+        !result.winners.slice(0, i).some(other => areTeammates(players[other], players[index])));
+      result.winners.forEach(index => {
+        addStars(this.gameState, this.gameState.players[index], stars, 'bonus_award');
+      });
+      this.record({ type: 'bonusAward', playerIndex: this.gameState.currentPlayerIndex, ...result, winners: [...result.winners] });
+      return result;
+    });
+    this.setState('GAME_END');
+  }
+
   /**
    * Get the current game state
    */
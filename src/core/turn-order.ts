@@ -0,0 +1,51 @@
+import { Team } from './game-state';
+
+/**
+ * Turn-order roll-off - before turn 1 every player rolls a die and the highest roll moves first
+ * Players who tie roll again (only among themselves) until every player has a distinct sequence of rolls
+ * TurnMachine.rollForOrder drives the rolls, these helpers decide the result
+ */
+
+/**
+ * Compare two players' roll-off rolls - higher first roll wins, re-rolls break ties (0 = still tied)
+ */
+export function compareOrderRolls(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (b[i] ?? 0) - (a[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Players (in seat order) who are still tied with someone and have to roll again
+ */
+export function findOrderTies(orderRolls: number[][]): number[] {
+  return orderRolls
+    .map((_, index) => index)
+    .filter(index => orderRolls.some((rolls, other) => other !== index && compareOrderRolls(rolls, orderRolls[index]) === 0));
+}
+
+/**
+ * Final turn order (player indices) from the roll-off
+ * In team mode the highest roller's team starts and the teams keep alternating,
+ * each team's members following their own rolls
+ */
+export function decideTurnOrder(orderRolls: number[][], teams: Team[]): number[] {
+  const ranked = orderRolls
+    .map((_, index) => index)
+    .sort((a, b) => compareOrderRolls(orderRolls[a], orderRolls[b]));
+  if (teams.length === 0) return ranked;
+
+  const firstTeam = teams.find(team => team.members.includes(ranked[0]))!;
+  const teamOrder = [firstTeam, ...teams.filter(team => team !== firstTeam)];
+  const queues = teamOrder.map(team => ranked.filter(index => team.members.includes(index)));
+
+  const order: number[] = [];
+  for (let round = 0; order.length < ranked.length; round++) {
+    queues.forEach(queue => {
+      if (round < queue.length) order.push(queue[round]);
+    });
+  }
+  return order;
+}
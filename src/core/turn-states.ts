@@ -0,0 +1,253 @@
+import { GameState, rankPlayers } from './game-state';
+import { TileType } from './constants';
+import type { GameEventBus } from './game-events';
+
+/**
+ * Turn state table - every TurnMachine state with the transitions it allows (and their guards),
+ * plus entry / exit actions run by TurnMachine.setState
+ * A new state (like the item phase, junction choice or duel) is added here: its definition,
+ * the transitions into and out of it, and the actions that may be performed in it (TURN_ACTIONS)
+ */
+
+export type TurnState =
+  | 'TURN_ORDER'
+  | 'TURN_START'
+  | 'ITEM_PHASE'
+  | 'ROLL_DICE'
+  | 'MOVE'
+  | 'JUNCTION_CHOICE'
+  | 'RESOLVE_TILE'
+  | 'SHOP'
+  | 'CHOOSE_OPPONENT'
+  | 'DUEL'
+  | 'OPTIONAL_MINIGAME'
+  | 'END_TURN'
+  | 'ROUND_MINIGAME'
+  | 'GAME_END';
+
+/** Passed to entry / exit actions */
+export interface TransitionContext {
+  gameState: GameState;
+  events: GameEventBus;
+  from: TurnState;
+  to: TurnState;
+}
+
+export interface TurnTransition {
+  to: TurnState;
+  description: string; // When the transition is taken (shown in the dev tools visualizer)
+  guard?: (gameState: GameState) => boolean; // The transition is refused unless this holds
+}
+
+export interface TurnStateDefinition {
+  description: string;
+  transitions: TurnTransition[];
+  onEnter?: (context: TransitionContext) => void;
+  onExit?: (context: TransitionContext) => void;
+}
+
+/** Public TurnMachine actions - each may only be performed in the states listed in TURN_ACTIONS */
+export type TurnAction =
+  | 'rollForOrder'
+  | 'useItem'
+  | 'rollDice'
+  | 'movePawn'
+  | 'chooseDirection'
+  | 'transitionToResolveTile'
+  | 'resolveTile'
+  | 'chooseOpponent'
+  | 'completeDuel'
+  | 'buyItem'
+  | 'leaveShop'
+  | 'completeMinigame'
+  | 'endTurn'
+  | 'completeRoundMinigame';
+
+export const TURN_ACTIONS: Record<TurnAction, TurnState[]> = {
+  rollForOrder: ['TURN_ORDER'],
+  useItem: ['ITEM_PHASE'],
+  rollDice: ['TURN_START', 'ITEM_PHASE', 'ROLL_DICE'], // Rolling in the item phase skips using an item
+  movePawn: ['MOVE'],
+  chooseDirection: ['JUNCTION_CHOICE'],
+  transitionToResolveTile: ['MOVE'],
+  resolveTile: ['RESOLVE_TILE'],
+  chooseOpponent: ['CHOOSE_OPPONENT'],
+  completeDuel: ['DUEL'],
+  buyItem: ['SHOP'],
+  leaveShop: ['SHOP'],
+  completeMinigame: ['OPTIONAL_MINIGAME'],
+  endTurn: ['END_TURN'],
+  completeRoundMinigame: ['ROUND_MINIGAME']
+};
+
+const holdsItems = (gameState: GameState): boolean =>
+  (gameState.players[gameState.currentPlayerIndex]?.items.length ?? 0) > 0;
+
+const isMatchOver = (gameState: GameState): boolean => gameState.turn > gameState.rules.maxTurns;
+
+const isOnTile = (gameState: GameState, ...types: TileType[]): boolean => {
+  const player = gameState.players[gameState.currentPlayerIndex];
+  return types.includes(gameState.tiles[player.pawnPosition].type);
+};
+
+/** Transitions that start a player's turn (after the roll-off or the previous turn) */
+const TURN_START_TRANSITIONS: TurnTransition[] = [
+  { to: 'TURN_START', description: 'Turn begins, no items held', guard: gameState => !isMatchOver(gameState) && !holdsItems(gameState) },
+  { to: 'ITEM_PHASE', description: 'Turn begins, holding items', guard: gameState => !isMatchOver(gameState) && holdsItems(gameState) }
+];
+
+export const TURN_STATES: Record<TurnState, TurnStateDefinition> = {
+  TURN_ORDER: {
+    description: 'Roll-off for the turn order',
+    transitions: [
+      { to: 'TURN_ORDER', description: 'Next roller (or a tie re-roll)', guard: gameState => gameState.orderRollers.length > 0 },
+      ...TURN_START_TRANSITIONS
+    ]
+  },
+  TURN_START: {
+    description: 'Waiting for the roll',
+    transitions: [{ to: 'MOVE', description: 'Dice rolled' }],
+    onEnter: ({ gameState, events }) => {
+      events.emit('turnStarted', { playerIndex: gameState.currentPlayerIndex, turn: gameState.turn });
+    }
+  },
+  ITEM_PHASE: {
+    description: 'Use an item or roll',
+    transitions: [
+      { to: 'ROLL_DICE', description: 'Item used' },
+      { to: 'MOVE', description: 'Dice rolled without using an item' }
+    ],
+    onEnter: ({ gameState, events }) => {
+      events.emit('turnStarted', { playerIndex: gameState.currentPlayerIndex, turn: gameState.turn });
+    }
+  },
+  ROLL_DICE: {
+    description: 'Item used, waiting for the roll',
+    transitions: [{ to: 'MOVE', description: 'Dice rolled' }]
+  },
+  MOVE: {
+    description: 'Pawn walking',
+    transitions: [
+      { to: 'JUNCTION_CHOICE', description: 'Junction reached with steps left', guard: gameState => (gameState.movesLeft ?? 0) > 0 },
+      { to: 'RESOLVE_TILE', description: 'Out of steps', guard: gameState => gameState.movesLeft === null }
+    ]
+  },
+  JUNCTION_CHOICE: {
+    description: 'Picking a way at a junction',
+    transitions: [{ to: 'MOVE', description: 'Direction chosen', guard: gameState => gameState.chosenNext !== null }]
+  },
+  RESOLVE_TILE: {
+    description: 'Applying the landing tile',
+    transitions: [
+      { to: 'END_TURN', description: 'Tile applied' },
+      { to: 'OPTIONAL_MINIGAME', description: 'Blue tile', guard: gameState => isOnTile(gameState, TileType.BLUE) },
+      { to: 'SHOP', description: 'Shop tile', guard: gameState => isOnTile(gameState, TileType.SHOP) },
+      { to: 'CHOOSE_OPPONENT', description: 'Swap / duel tile with opponents', guard: gameState => isOnTile(gameState, TileType.SWAP, TileType.DUEL) }
+    ]
+  },
+  SHOP: {
+    description: 'Shopping',
+    transitions: [{ to: 'END_TURN', description: 'Item bought or shop left' }]
+  },
+  CHOOSE_OPPONENT: {
+    description: 'Picking an opponent',
+    transitions: [
+      { to: 'END_TURN', description: 'Places swapped' },
+      { to: 'DUEL', description: 'Opponent challenged', guard: gameState => gameState.opponentIndex !== null }
+    ]
+  },
+  DUEL: {
+    description: 'Duel minigame',
+    transitions: [{ to: 'END_TURN', description: 'Duel decided' }],
+    onEnter: ({ gameState, events }) => {
+      events.emit('minigameStarted', {
+        playerIndex: gameState.currentPlayerIndex,
+        kind: 'duel',
+        opponentIndex: gameState.opponentIndex ?? undefined
+      });
+    }
+  },
+  OPTIONAL_MINIGAME: {
+    description: 'Blue-tile minigame',
+    transitions: [{ to: 'END_TURN', description: 'Minigame finished' }],
+    onEnter: ({ gameState, events }) => {
+      events.emit('minigameStarted', { playerIndex: gameState.currentPlayerIndex, kind: 'blue' });
+    }
+  },
+  END_TURN: {
+    description: 'Turn over',
+    transitions: [
+      ...TURN_START_TRANSITIONS,
+      { to: 'ROUND_MINIGAME', description: 'Round over - everyone plays', guard: gameState => gameState.roundMinigame !== null },
+      { to: 'GAME_END', description: 'Last turn played', guard: isMatchOver }
+    ],
+    // Clear what only lasts for one turn
+    onExit: ({ gameState }) => {
+      gameState.diceResult = null;
+      gameState.pendingPoints = null;
+      gameState.minigameScore = null;
+      gameState.movesLeft = null;
+      gameState.chosenNext = null;
+      gameState.activeItem = null;
+      gameState.goldenDiceValue = null;
+      gameState.opponentIndex = null;
+      gameState.minigameId = null;
+    }
+  },
+  ROUND_MINIGAME: {
+    description: 'End-of-round minigame for every player',
+    transitions: [
+      ...TURN_START_TRANSITIONS,
+      { to: 'GAME_END', description: 'Last round played', guard: isMatchOver }
+    ],
+    onEnter: ({ gameState, events }) => {
+      events.emit('minigameStarted', { playerIndex: gameState.currentPlayerIndex, kind: 'round' });
+    }
+  },
+  GAME_END: {
+    description: 'Match over',
+    transitions: [],
+    onEnter: ({ gameState, events }) => {
+      const players = gameState.players;
+      events.emit('gameEnded', { standings: rankPlayers(players).map(player => players.indexOf(player)) });
+    }
+  }
+};
+
+/**
+ * Whether an action may be performed in a state
+ */
+export function canPerform(state: TurnState, action: TurnAction): boolean {
+  return TURN_ACTIONS[action].includes(state);
+}
+
+/**
+ * Transition from one state to another (undefined when the table has none)
+ */
+export function findTransition(from: TurnState, to: TurnState): TurnTransition | undefined {
+  return TURN_STATES[from].transitions.find(transition => transition.to === to);
+}
+
+/** Snapshot of the current state for the dev tools visualizer */
+export interface TurnStateInfo {
+  state: TurnState;
+  description: string;
+  actions: TurnAction[]; // Actions that may be performed now
+  transitions: { to: TurnState; description: string; allowed: boolean }[]; // allowed = guard passes right now
+}
+
+/**
+ * Describe a state - its allowed actions and each outgoing transition with its guard evaluated
+ */
+export function describeTurnState(state: TurnState, gameState: GameState): TurnStateInfo {
+  return {
+    state,
+    description: TURN_STATES[state].description,
+    actions: (Object.keys(TURN_ACTIONS) as TurnAction[]).filter(action => canPerform(state, action)),
+    transitions: TURN_STATES[state].transitions.map(transition => ({
+      to: transition.to,
+      description: transition.description,
+      allowed: !transition.guard || transition.guard(gameState)
+    }))
+  };
+}
@@ -1,15 +1,28 @@
 import { initEngine } from './babylon/engine';
 import { SceneManager, SceneType } from './babylon/scene-manager';
-import { createGameState, GameState as GameStateType } from './core/game-state';
-import { TurnMachine } from './core/turn-machine';
+import { createGameState, rankPlayers, getPlayerTeam, GameState as GameStateType } from './core/game-state';
+import { TurnMachine, TurnState } from './core/turn-machine';
+import { GameEventBus } from './core/game-events';
+import { MinigameScore, createSoloResults, rankMinigameScores, getMinigamePayouts } from './core/minigame-results';
+import { saveGame, clearSavedGame, restoreGameState } from './core/save-game';
+import { createMatchLog, getPassEffects } from './core/match-log';
+import { ReplayViewer } from './ui/replay-viewer';
 import { HUD } from './ui/hud';
 import { MinigameUI } from './ui/minigame-ui';
+import { InteractiveMinigameUI } from './ui/interactive-minigame-ui';
+import { minigameRegistry } from './minigames/core/minigame-registry';
+import { InteractiveMinigame } from './minigames/core/interactive-minigame';
+import { isMinigame3D } from './minigames/core/types';
 import { EndScreen } from './ui/end-screen';
+import { ShopPanel } from './ui/shop-panel';
+import { OpponentPicker } from './ui/opponent-picker';
+import { CpuPlayer, CPU_ACTION_DELAY } from './core/cpu-player';
 import { TileType } from './core/constants';
+import { ItemType, ItemUseOptions, ITEMS } from './core/items';
 import { showTriviaOverlay, showTriviaByType } from './ui/trivia-overlay';
 
 import { SelectionScreen, GameConfig } from './ui/selection-screen';
-import { Player } from './core/game-state';
+import { Player, Team } from './core/game-state';
 
 /**
  * Main game entry point
@@ -20,29 +33,44 @@ class Game {
   private sceneManager: SceneManager;
   private gameState: GameStateType;
   private turnMachine: TurnMachine;
+  private events: GameEventBus; // Match events - the turn flow below, the HUD and others subscribe
   private hud: HUD;
   private minigameUI: MinigameUI;
+  private interactiveMinigameUI!: InteractiveMinigameUI;
   private endScreen: EndScreen;
+  private shopPanel!: ShopPanel;
+  private opponentPicker!: OpponentPicker;
+  private cpu!: CpuPlayer; // Decisions for computer-controlled seats
   private isMoving: boolean = false;
+  private roundPlays: (MinigameScore & { won: boolean })[] = []; // End-of-round minigame goes played so far
+  private duelPlays: MinigameScore[] = []; // Duel questions answered so far (challenger first)
 
   constructor(config: GameConfig) {
     // Initialize Babylon.js engine
     initEngine('renderCanvas');
 
-    // Create game state with deterministic seed (can be changed for different games)
-    const seed = Date.now(); // Use timestamp as seed (could be set to fixed value for reproducibility)
+    if (config.resume) {
+      // Continue an interrupted match from its autosave snapshot
+      this.gameState = restoreGameState(config.resume);
+      console.log('Resuming saved game at turn', this.gameState.turn, 'state', this.gameState.currentState);
+    } else {
+      // Create game state with deterministic seed (can be changed for different games)
+      const seed = Date.now(); // Use timestamp as seed (could be set to fixed value for reproducibility)
+
+      // Pass players from config
+      this.gameState = createGameState(seed, config.players, config.rules);
+      console.log('Game seed:', this.gameState.rng.getSeed());
+    }
 
-    // Pass players from config
-    this.gameState = createGameState(seed, config.players);
-    console.log('Game seed:', this.gameState.rng.getSeed());
+    this.cpu = new CpuPlayer(this.gameState);
 
     // Initialize scene manager
     this.sceneManager = new SceneManager();
 
-    // Initialize turn machine with state change callback
-    this.turnMachine = new TurnMachine(this.gameState, (state) => {
-      this.onStateChange(state);
-    });
+    // Initialize turn machine - the turn flow follows its state changes
+    this.events = new GameEventBus();
+    this.events.on('stateChanged', ({ state }) => this.onStateChange(state));
+    this.turnMachine = new TurnMachine(this.gameState, this.events);
 
     // Setup UI
     this.setupUI();
@@ -53,24 +81,71 @@ class Game {
     // Initialize board
     this.initializeBoard();
 
-    // Listen for test events from Dev Tools
-    window.addEventListener('testBlueTile', () => {
-      this.testBlueTileMinigame();
-    });
+    // Dev tools turn state visualizer follows every transition
+    this.events.on('stateChanged', () => this.updateTurnStateView());
 
-    // Start first turn
-    this.turnMachine.startTurn();
+    if (config.resume) {
+      this.resumeTurn();
+    } else {
+      // Open with the turn-order roll-off, turn 1 starts once the order is decided
+      this.turnMachine.startMatch();
+    }
     this.updateUI();
+    this.updateTurnStateView();
+  }
+
+  /**
+   * Pick the turn flow back up from the state the snapshot was saved in
+   */
+  private resumeTurn(): void {
+    const state = this.turnMachine.getState();
+    console.log('Resuming turn flow from state:', state);
+
+    switch (state) {
+      case 'MOVE':
+        // Dice were already rolled - play the movement
+        this.handleMove();
+        break;
+      case 'JUNCTION_CHOICE':
+        this.handleJunctionChoice();
+        break;
+      case 'RESOLVE_TILE':
+        this.turnMachine.resolveTile();
+        this.handleTileResolved();
+        break;
+      case 'OPTIONAL_MINIGAME':
+        this.handleStartMinigame();
+        break;
+      case 'SHOP':
+        this.showShop();
+        break;
+      case 'CHOOSE_OPPONENT':
+        this.showOpponentPicker();
+        break;
+      case 'DUEL':
+        this.handleDuel();
+        break;
+      case 'ROUND_MINIGAME':
+        this.handleRoundMinigame();
+        break;
+      case 'END_TURN':
+        this.turnMachine.endTurn();
+        break;
+      case 'GAME_END':
+        this.handleGameEnd();
+        break;
+      default:
+        // TURN_ORDER / TURN_START / ITEM_PHASE / ROLL_DICE - wait for the player to use an item or roll
+        this.handleCpuTurnStart();
+        break;
+    }
   }
 
   /**
-   * Test blue tile minigame directly (for debugging)
+   * Show the current turn state and its transitions in the dev tools
    */
-  private testBlueTileMinigame(): void {
-    console.log('Testing Blue Tile - Starting minigame in test mode');
-    // Force state to OPTIONAL_MINIGAME using TurnMachine's method
-    this.turnMachine.forceStateForTesting('OPTIONAL_MINIGAME');
-    this.handleStartMinigame();
+  private updateTurnStateView(): void {
+    this.sceneManager.getBoardScene()?.showTurnStateInfo(this.turnMachine.describeState());
   }
 
   /**
@@ -94,22 +169,62 @@ class Game {
     minigameContainer.id = 'minigame-ui';
     app.appendChild(minigameContainer);
 
+    const interactiveContainer = document.createElement('div');
+    interactiveContainer.id = 'interactive-minigame-ui';
+    app.appendChild(interactiveContainer);
+
     const endScreenContainer = document.createElement('div');
     endScreenContainer.id = 'end-screen';
     app.appendChild(endScreenContainer);
 
+    const shopContainer = document.createElement('div');
+    shopContainer.id = 'shop-panel';
+    app.appendChild(shopContainer);
+
+    const opponentContainer = document.createElement('div');
+    opponentContainer.id = 'opponent-picker';
+    app.appendChild(opponentContainer);
+
     // Create UI components
     this.hud = new HUD(
       hudContainer,
       () => this.handleRollDice(),
-      () => this.handleTestTrivia()
+      () => this.handleTestTrivia(),
+      (item, options) => this.handleUseItem(item, options)
+    );
+    this.hud.subscribe(this.events, this.gameState);
+    this.shopPanel = new ShopPanel(
+      shopContainer,
+      (item) => this.handleBuyItem(item),
+      () => this.handleLeaveShop()
+    );
+    this.opponentPicker = new OpponentPicker(opponentContainer, (playerIndex) => this.handlePickOpponent(playerIndex));
+    this.minigameUI = new MinigameUI(minigameContainer, (correct) => {
+      if (this.turnMachine.getState() === 'ROUND_MINIGAME') {
+        this.handleRoundPlayComplete(correct, correct ? 1 : 0);
+      } else if (this.turnMachine.getState() === 'DUEL') {
+        this.handleDuelPlayComplete(correct);
+      } else {
+        this.handleMinigameComplete(correct);
+      }
+    }, this.gameState.rng.stream('questions'), this.gameState.rng.stream('cpu'));
+    this.interactiveMinigameUI = new InteractiveMinigameUI(interactiveContainer, (success, score) => {
+      if (this.turnMachine.getState() === 'ROUND_MINIGAME') {
+        this.handleRoundPlayComplete(success, score);
+      } else {
+        this.handleMinigameComplete(success);
+      }
+    });
+    this.endScreen = new EndScreen(
+      endScreenContainer,
+      () => this.handleRestart(),
+      () => this.handleWatchReplay()
     );
-    this.minigameUI = new MinigameUI(minigameContainer, (correct) => this.handleMinigameComplete(correct), this.gameState.rng);
-    this.endScreen = new EndScreen(endScreenContainer, () => this.handleRestart());
   }
 
   /**
    * Handle test trivia button click - cycles through text, audio, video
+   * Only previews the question: scores change through TurnMachine actions, so the match log still replays
    */
   private testQuestionTypeIndex = 0;
   private questionTypes: ('text' | 'audio' | 'video')[] = ['text', 'audio', 'video'];
@@ -122,16 +237,7 @@ class Game {
 
     showTriviaByType(questionType, (result) => {
       console.log('[Game] Trivia result:', result);
-      if (result.success) {
-        const currentPlayer = this.gameState.players[this.gameState.currentPlayerIndex];
-        if (currentPlayer) {
-          currentPlayer.points += result.pointsEarned;
-          this.hud.showTileMessage('minigame_win', result.pointsEarned);
-        }
-      } else {
-        this.hud.showTileMessage('minigame_lose', 0);
-      }
-      this.updateUI();
+      this.hud.showTileMessage(result.success ? 'minigame_win' : 'minigame_lose', 0);
     });
   }
 
@@ -142,7 +248,8 @@ class Game {
     // Initialize board scene
     this.sceneManager.initBoardScene(
       () => { /* dice roll callback - handled by HUD button */ },
-      () => this.handlePawnMoveComplete()
+      () => this.handlePawnMoveComplete(),
+      this.gameState.rules
     );
 
     // Initialize minigame scene
@@ -176,9 +283,16 @@ class Game {
   /**
    * Handle state machine state changes
    */
-  private onStateChange(state: string): void {
+  private onStateChange(state: TurnState): void {
     console.log('State changed to:', state);
 
+    // Autosave on every transition so the match can be continued after an interruption
+    if (state === 'GAME_END') {
+      clearSavedGame();
+    } else {
+      saveGame(this.gameState);
+    }
+
     switch (state) {
       case 'GAME_END':
         this.handleGameEnd();
@@ -186,21 +300,87 @@ class Game {
       case 'OPTIONAL_MINIGAME':
         this.handleStartMinigame();
         break;
+      case 'DUEL':
+        this.handleDuel();
+        break;
+      case 'ROUND_MINIGAME':
+        this.handleRoundMinigame();
+        break;
+      case 'TURN_ORDER':
+      case 'TURN_START':
+      case 'ITEM_PHASE':
+        if (this.gameState.actionLog[this.gameState.actionLog.length - 1]?.type === 'finalTurns') {
+          this.handleFinalTurns();
+          break;
+        }
+        this.updateUI();
+        this.handleCpuTurnStart();
+        break;
       default:
         this.updateUI();
     }
   }
 
+  /**
+   * The last turns just began - show the banner and camera flourish before the turn goes on
+   */
+  private async handleFinalTurns(): Promise<void> {
+    this.isMoving = true; // Hold the roll until the announcement is over
+    this.updateUI();
+
+    const boardScene = this.sceneManager.getBoardScene();
+    await Promise.all([
+      this.hud.showFinalTurnsBanner(this.gameState),
+      boardScene ? boardScene.playFinalTurnsFlourish() : Promise.resolve()
+    ]);
+
+    this.isMoving = false;
+    this.updateUI();
+    this.handleCpuTurnStart();
+  }
+
+  private isCpuTurn(): boolean {
+    return !!this.turnMachine.getCurrentPlayer()?.cpu;
+  }
+
+  /**
+   * Pause so a CPU's actions can be followed on screen
+   */
+  private cpuDelay(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, CPU_ACTION_DELAY));
+  }
+
+  /**
+   * CPU seat - use an item if it wants to, then roll (also rolls for the turn order)
+   * Skipped while a dice animation is playing - the roll-off picks the next CPU up once it ends
+   */
+  private async handleCpuTurnStart(): Promise<void> {
+    if (!this.isCpuTurn() || this.isMoving) return;
+    await this.cpuDelay();
+
+    const player = this.turnMachine.getCurrentPlayer();
+    if (this.turnMachine.getState() === 'ITEM_PHASE') {
+      const choice = this.cpu.chooseItem(player);
+      if (choice) {
+        this.handleUseItem(choice.item, choice.options);
+        await this.cpuDelay();
+      }
+    }
+    this.handleRollDice();
+  }
+
   /**
    * Handle dice roll button click
    */
   private async handleRollDice(): Promise<void> {
     if (this.isMoving) return;
+    if (this.turnMachine.getState() === 'TURN_ORDER') {
+      return this.handleRollForOrder();
+    }
 
     try {
-      const currentState = this.turnMachine.getState();
-      if (currentState !== 'TURN_START' && currentState !== 'ROLL_DICE') {
-        console.warn('Cannot roll dice in state:', currentState);
+      if (!this.turnMachine.canPerform('rollDice')) {
+        console.warn('Cannot roll dice in state:', this.turnMachine.getState());
         return;
       }
 
@@ -239,6 +419,34 @@ class Game {
     }
   }
 
+  /**
+   * Turn-order roll-off - roll the 3D dice for the current roller, then hand over to the next roller
+   * (or to the first player of turn 1 once the order is decided)
+   */
+  private async handleRollForOrder(): Promise<void> {
+    try {
+      this.isMoving = true;
+      const player = this.turnMachine.getCurrentPlayer();
+      const value = this.turnMachine.rollForOrder();
+
+      const boardScene = this.sceneManager.getBoardScene();
+      if (boardScene) {
+        await boardScene.rollDice3D(player.id, value);
+      }
+      this.hud.showDiceRoll(value);
+      this.isMoving = false;
+
+      if (this.turnMachine.getState() !== 'TURN_ORDER') {
+        this.hud.showTurnOrder(this.gameState);
+      }
+      this.updateUI();
+      this.handleCpuTurnStart();
+    } catch (error) {
+      console.error('Error rolling for turn order:', error);
+      this.isMoving = false;
+    }
+  }
+
   /**
    * Handle pawn movement
    */
@@ -263,10 +471,7 @@ class Game {
       return;
     }
 
-    const currentPosition = currentPlayer.pawnPosition;
-    const newPosition = (currentPosition + diceResult) % 50;
-
-    console.log(`Moving ${currentPlayer.name} from position ${currentPosition} to ${newPosition} (${diceResult} steps)`);
+    console.log(`Moving ${currentPlayer.name} from position ${currentPlayer.pawnPosition} (${gameState.movesLeft ?? diceResult} steps)`);
 
     this.isMoving = true;
     this.hud.hideTileMessage();
@@ -277,21 +482,32 @@ class Game {
         throw new Error('Board scene not found');
       }
 
-      // Ensure pawn is at the correct starting position
-      // boardScene.updatePawnPosition(currentPosition); // Need to target specific pawn
+      // Commit the move in the turn machine first - it decides the path (stopping at junctions)
+      // The board is not refreshed while isMoving is set, so the pawn is animated along the path below
+      const logLength = gameState.actionLog.length;
+      const path = this.turnMachine.movePawn();
+      const passEffects = getPassEffects(gameState.actionLog, logLength);
 
       // Wait a frame to ensure position is set
       await new Promise(resolve => setTimeout(resolve, 50));
 
-      // Move pawn with animation
-      // We need to tell boardScene WHICH pawn to move
-      await boardScene.movePawn(currentPlayer.id, currentPosition, diceResult, gameState);
-
-      // Update game state position after movement completes
-      currentPlayer.pawnPosition = newPosition;
+      // Move pawn with animation, pausing on tiles with a pass-through effect (star, bank, toll, start)
+      await boardScene.movePawn(currentPlayer.id, path, gameState, (step) => {
+        const effects = passEffects.filter(effect => effect.step === step);
+        if (effects.length === 0) return;
+        if (effects.some(effect => effect.hook === 'star')) {
+          boardScene.updateStarMarker(gameState.starTileIndex);
+        }
+        this.hud.update(gameState);
+        return this.hud.showPassEffects(effects);
+      });
 
-      // Transition to RESOLVE_TILE state since we handled movement visually
-      this.turnMachine.transitionToResolveTile();
+      // Junction - the player picks a direction, then the remaining steps are played
+      if (this.turnMachine.getState() === 'JUNCTION_CHOICE') {
+        this.isMoving = false;
+        this.handleJunctionChoice();
+        return;
+      }
 
       // Now resolve the tile
       this.turnMachine.resolveTile();
@@ -308,6 +524,28 @@ class Game {
     }
   }
 
+  /**
+   * Let the player pick which way to go at a junction, then continue moving
+   */
+  private async handleJunctionChoice(): Promise<void> {
+    const boardScene = this.sceneManager.getBoardScene();
+    if (!boardScene) return;
+
+    const options = this.turnMachine.getJunctionOptions();
+    this.hud.showTileMessage('junction', 0);
+    let choice: number;
+    if (this.isCpuTurn()) {
+      await this.cpuDelay();
+      choice = this.cpu.chooseDirection(this.turnMachine.getCurrentPlayer(), options, this.turnMachine.getMoveDirection());
+    } else {
+      choice = await boardScene.showDirectionChoices(options);
+    }
+    this.hud.hideTileMessage();
+
+    this.turnMachine.chooseDirection(choice);
+    this.handleMove();
+  }
+
   /**
    * Handle pawn move completion (callback from scene)
    */
@@ -324,20 +562,40 @@ class Game {
     const currentPlayer = gameState.players[gameState.currentPlayerIndex];
     const currentTile = gameState.tiles[currentPlayer.pawnPosition];
     const points = gameState.pendingPoints ?? 0;
+    const state = this.turnMachine.getState();
+    const lastAction = gameState.actionLog[gameState.actionLog.length - 1];
 
     // Show tile message
-    if (currentTile && currentTile.type !== TileType.BLUE) {
+    if (lastAction && lastAction.type === 'resolveTile' && lastAction.event) {
+      this.hud.showEventMessage(lastAction.event);
+    } else if (currentTile && currentTile.type === TileType.RED && gameState.activeItem === ItemType.SHIELD) {
+      this.hud.showTileMessage('shield', 0);
+    } else if ((currentTile?.type === TileType.SWAP || currentTile?.type === TileType.DUEL) && state !== 'CHOOSE_OPPONENT') {
+      // No opponent to pick - nothing happens
+    } else if (currentTile && currentTile.type !== TileType.BLUE) {
       this.hud.showTileMessage(currentTile.type, points);
     }
 
+    // Reset moving flag (before the UI update so a warp / pawn shuffle is shown on the board)
+    this.isMoving = false;
+
     // Update UI
     this.updateUI();
 
-    // Reset moving flag
-    this.isMoving = false;
+    // Shop - wait for the player to buy something or leave
+    if (state === 'SHOP') {
+      this.showShop();
+      return;
+    }
+
+    // Swap / duel - wait for the player to pick an opponent
+    if (state === 'CHOOSE_OPPONENT') {
+      this.showOpponentPicker();
+      return;
+    }
 
     // If not minigame, end turn automatically after message
-    if (currentTile && currentTile.type !== TileType.BLUE) {
+    if (state === 'END_TURN') {
       setTimeout(() => {
         this.turnMachine.endTurn();
         this.updateUI();
@@ -345,26 +603,175 @@ class Game {
     }
   }
 
+  /**
+   * Use an item from the HUD item bar (ITEM_PHASE)
+   */
+  private handleUseItem(item: ItemType, options?: ItemUseOptions): void {
+    if (this.isMoving) return;
+
+    try {
+      this.turnMachine.useItem(item, options);
+      const lastAction = this.gameState.actionLog[this.gameState.actionLog.length - 1];
+      if (item === ItemType.STEAL && lastAction.type === 'useItem') {
+        this.hud.showTileMessage('steal', lastAction.amount ?? 0);
+      }
+      console.log(`Used item: ${ITEMS[item].name}`);
+      this.updateUI();
+    } catch (error) {
+      console.error('Error using item:', error);
+    }
+  }
+
+  /**
+   * Buy an item in the shop, then end the turn
+   */
+  private handleBuyItem(item: ItemType): void {
+    try {
+      this.turnMachine.buyItem(item);
+      this.hud.showTileMessage('item_bought', ITEMS[item].price);
+      this.updateUI();
+      setTimeout(() => {
+        this.turnMachine.endTurn();
+        this.updateUI();
+      }, 2500);
+    } catch (error) {
+      console.error('Error buying item:', error);
+      this.showShop();
+    }
+  }
+
+  /**
+   * Open the shop for the current player (a CPU picks on its own)
+   */
+  private async showShop(): Promise<void> {
+    const player = this.turnMachine.getCurrentPlayer();
+    if (!player.cpu) {
+      this.shopPanel.show(player);
+      return;
+    }
+
+    await this.cpuDelay();
+    const item = this.cpu.chooseShopItem(player);
+    if (item) {
+      this.handleBuyItem(item);
+    } else {
+      this.handleLeaveShop();
+    }
+  }
+
+  /**
+   * Leave the shop without buying, then end the turn
+   */
+  private handleLeaveShop(): void {
+    this.turnMachine.leaveShop();
+    this.updateUI();
+    setTimeout(() => {
+      this.turnMachine.endTurn();
+      this.updateUI();
+    }, 500);
+  }
+
+  /**
+   * Show the opponent picker for the swap / duel tile the current player is on
+   */
+  private async showOpponentPicker(): Promise<void> {
+    const currentPlayer = this.turnMachine.getCurrentPlayer();
+    const options = this.turnMachine.getOpponentOptions();
+    const tileType = this.gameState.tiles[currentPlayer.pawnPosition].type;
+
+    if (currentPlayer.cpu) {
+      await this.cpuDelay();
+      this.handlePickOpponent(this.cpu.chooseOpponent(currentPlayer, options, tileType));
+      return;
+    }
+    this.opponentPicker.show(this.gameState.players, options, tileType);
+  }
+
+  /**
+   * Swap places with / challenge the picked opponent
+   * A duel continues in the minigame (started from onStateChange)
+   */
+  private handlePickOpponent(playerIndex: number): void {
+    const currentPlayer = this.turnMachine.getCurrentPlayer();
+    const tileType = this.gameState.tiles[currentPlayer.pawnPosition].type;
+
+    try {
+      this.turnMachine.chooseOpponent(playerIndex);
+    } catch (error) {
+      console.error('Error choosing opponent:', error);
+      this.showOpponentPicker();
+      return;
+    }
+
+    if (tileType === TileType.SWAP) {
+      this.hud.showTileMessage('swapped', 0);
+      this.updateUI();
+      setTimeout(() => {
+        this.turnMachine.endTurn();
+        this.updateUI();
+      }, 2500);
+    }
+  }
+
   /**
    * Handle minigame start
    */
   private handleStartMinigame(): void {
     console.log('Starting minigame');
     this.sceneManager.switchToScene(SceneType.MINIGAME);
-    this.minigameUI.start();
+    const player = this.turnMachine.getCurrentPlayer();
+
+    // Blue-tile minigames are played by the whole team - a CPU only plays when no teammate is human
+    const team = getPlayerTeam(this.gameState, player);
+    const answering = team ? team.members.map(index => this.gameState.players[index]) : [player];
+    const isCpu = answering.every(member => member.cpu);
+    const playing = team ? { team, members: answering } : undefined;
+
+    // Plays the minigame the turn machine picked for the blue tile
+    const minigameId = this.gameState.minigameId;
+    const game = minigameId ? minigameRegistry.get(minigameId) : null;
+    if (game instanceof InteractiveMinigame) {
+      console.log(`Blue tile minigame: ${game.nameEn}`);
+      const cpuWins = isCpu ? this.cpu.playMinigame(player) : undefined;
+      this.startInteractiveMinigame(game, cpuWins, answering, playing);
+      return;
+    }
+
+    const cpuAnswer = isCpu ? this.cpu.answerTrivia(player) : undefined;
+    this.minigameUI.start(cpuAnswer, playing);
   }
 
   /**
-   * Handle minigame completion (trivia: correct = true, incorrect = false)
+   * Start an interactive minigame - a 3D one first builds its scene in MinigameScene (with the players' characters)
+   */
+  private async startInteractiveMinigame(
+    game: InteractiveMinigame,
+    cpuWins: boolean | undefined,
+    players: Player[],
+    playing?: { team?: Team; members: Player[] }
+  ): Promise<void> {
+    if (isMinigame3D(game)) {
+      try {
+        await this.sceneManager.getMinigameScene()?.mount(game, players);
+      } catch (error) {
+        // The game still plays (over the backdrop) without its scene
+        console.error('Could not build the minigame scene:', error);
+      }
+    }
+    this.interactiveMinigameUI.start(game, this.gameState.rng.stream('minigames'), cpuWins, playing);
+  }
+
+  /**
+   * Handle blue-tile minigame completion (trivia: correct = true, incorrect = false; interactive: won = true)
    */
   private handleMinigameComplete(correct: boolean): void {
     console.log('Minigame completed:', correct ? 'Correct!' : 'Wrong answer');
 
     // Complete minigame in turn machine
     try {
-      this.turnMachine.completeMinigame(correct);
+      this.turnMachine.completeMinigame(createSoloResults(this.gameState.currentPlayerIndex, correct));
 
-      // Show points earned (or lost)
+      // Show points earned
       const gameState = this.turnMachine.getGameState();
       const points = gameState.pendingPoints ?? 0;
 
@@ -398,11 +805,121 @@ class Game {
     }
   }
 
+  /**
+   * Duel - the challenger and then their opponent each answer a trivia question, then they are ranked 1v1
+   */
+  private handleDuel(): void {
+    this.duelPlays = [];
+    this.sceneManager.switchToScene(SceneType.MINIGAME);
+    this.playNextDuelGo();
+  }
+
+  /**
+   * Ask the next duellist their question, or decide the duel once both have answered
+   */
+  private playNextDuelGo(): void {
+    const duellists = [this.gameState.currentPlayerIndex, this.gameState.opponentIndex!];
+    const playerIndex = duellists[this.duelPlays.length];
+    if (playerIndex === undefined) {
+      this.finishDuel();
+      return;
+    }
+
+    const player = this.gameState.players[playerIndex];
+    this.minigameUI.start(player.cpu ? this.cpu.answerTrivia(player) : undefined, { members: [player] });
+  }
+
+  private handleDuelPlayComplete(correct: boolean): void {
+    const duellists = [this.gameState.currentPlayerIndex, this.gameState.opponentIndex!];
+    this.duelPlays.push({ playerIndex: duellists[this.duelPlays.length], score: correct ? 1 : 0 });
+    this.playNextDuelGo();
+  }
+
+  /**
+   * Rank both duellists, move the stake and end the turn after the announcement
+   */
+  private finishDuel(): void {
+    const results = rankMinigameScores('1v1', this.duelPlays);
+    try {
+      this.turnMachine.completeDuel(results);
+      // pendingPoints is the challenger's change - the winner took that many coins
+      this.hud.showDuelResult(this.gameState, results, Math.abs(this.gameState.pendingPoints ?? 0));
+      this.sceneManager.switchToScene(SceneType.BOARD);
+      this.updateUI();
+
+      // End turn after message
+      setTimeout(() => {
+        this.turnMachine.endTurn();
+        this.updateUI();
+      }, 4000);
+    } catch (error) {
+      console.error('Error completing duel:', error);
+      this.sceneManager.switchToScene(SceneType.BOARD);
+    }
+  }
+
+  /**
+   * End-of-round minigame - every player has a go at the same game in turn order, then they are ranked by score
+   */
+  private handleRoundMinigame(): void {
+    const round = this.gameState.roundMinigame;
+    if (!round) return;
+    this.roundPlays = [];
+    this.hud.showRoundMinigame(minigameRegistry.get(round.minigameId)?.nameAr ?? round.minigameId);
+    this.sceneManager.switchToScene(SceneType.MINIGAME);
+    this.playNextRoundGo();
+  }
+
+  /**
+   * Start the next player's go at the round minigame, or rank everyone once all have played
+   */
+  private playNextRoundGo(): void {
+    const round = this.gameState.roundMinigame!;
+    const participant = round.participants[this.roundPlays.length];
+    if (!participant) {
+      this.finishRoundMinigame();
+      return;
+    }
+
+    const player = this.gameState.players[participant.playerIndex];
+    const game = minigameRegistry.get(round.minigameId);
+    if (game instanceof InteractiveMinigame) {
+      const cpuWins = player.cpu ? this.cpu.playMinigame(player) : undefined;
+      this.startInteractiveMinigame(game, cpuWins, [player], { members: [player] });
+    } else {
+      // Trivia only suits a single player - the round is one question for them
+      this.minigameUI.start(player.cpu ? this.cpu.answerTrivia(player) : undefined);
+    }
+  }
+
+  private handleRoundPlayComplete(won: boolean, score: number): void {
+    const participant = this.gameState.roundMinigame!.participants[this.roundPlays.length];
+    this.roundPlays.push({ ...participant, score, won });
+    this.playNextRoundGo();
+  }
+
+  /**
+   * Rank the round minigame, show the placements, then pay out and carry on with the next round
+   */
+  private finishRoundMinigame(): void {
+    const round = this.gameState.roundMinigame!;
+    const results = round.format === 'solo'
+      ? createSoloResults(this.roundPlays[0].playerIndex, this.roundPlays[0].won)
+      : rankMinigameScores(round.format, this.roundPlays.map(({ playerIndex, score, side }) => ({ playerIndex, score, side })));
+
+    this.hud.showMinigameResults(this.gameState, results, getMinigamePayouts(results, this.gameState.rules));
+    this.sceneManager.switchToScene(SceneType.BOARD);
+    setTimeout(() => {
+      this.turnMachine.completeRoundMinigame(results);
+      this.updateUI();
+    }, 3000);
+  }
+
   /**
    * Handle game end
    */
   private handleGameEnd(): void {
-    const winners = [...this.gameState.players].sort((a, b) => b.points - a.points);
+    const winners = rankPlayers(this.gameState.players);
     const winner = winners[0];
     console.log('Game ended. Winner:', winner.name);
 
@@ -419,10 +936,30 @@ class Game {
     }
   }
 
+  /**
+   * Replay the finished match from its action log, then return to the end screen
+   */
+  private handleWatchReplay(): void {
+    const boardScene = this.sceneManager.getBoardScene();
+    if (!boardScene) return;
+
+    this.endScreen.hide();
+    const log = createMatchLog(this.gameState);
+    console.log(`Replaying match (seed ${log.seed}, ${log.actions.length} actions)`);
+
+    new ReplayViewer(boardScene, this.hud, log, () => {
+      // Restore the real final state on the board
+      this.updateUI();
+      this.endScreen.show(this.gameState);
+    });
+  }
+
   /**
    * Handle restart
    */
   private handleRestart(): void {
+    // The finished match must not be offered as "continue last game"
+    clearSavedGame();
     // Reload page to return to selection screen
     window.location.reload();
   }
@@ -437,19 +974,24 @@ class Game {
     // Update board tiles if needed
     const boardScene = this.sceneManager.getBoardScene();
     if (boardScene) {
-      boardScene.updateTiles(gameState);
-      // boardScene.updatePawnPosition(gameState.pawnPosition); // REMOVED - need multi-pawn update
-      boardScene.updatePawnPositions(gameState.players); // NEW method to add
+      // Skipped while moving - the pawn is still being animated towards its new position
+      if (!this.isMoving) {
+        boardScene.updateTiles(gameState);
+        // boardScene.updatePawnPosition(gameState.pawnPosition); // REMOVED - need multi-pawn update
+        boardScene.updatePawnPositions(gameState.players); // NEW method to add
+      }
 
       // Highlight pawn during active turn (not moving and not in minigame)
       const currentState = this.turnMachine.getState();
       const isActive = !this.isMoving &&
-        (currentState === 'TURN_START' || currentState === 'ROLL_DICE' || currentState === 'MOVE');
+        (currentState === 'TURN_START' || currentState === 'ITEM_PHASE' || currentState === 'ROLL_DICE' || currentState === 'MOVE');
       boardScene.setActiveTurn(isActive);
 
       // Show/hide spinning dice above current player
       const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-      if (currentPlayer && (currentState === 'TURN_START' || currentState === 'ROLL_DICE')) {
+      const isRollState = currentState === 'TURN_ORDER' || currentState === 'TURN_START' ||
+        currentState === 'ITEM_PHASE' || currentState === 'ROLL_DICE';
+      if (currentPlayer && isRollState && !this.isMoving) {
         // Show dice above current player, spinning continuously
         boardScene.showDiceAbovePlayer(currentPlayer.id);
       } else {
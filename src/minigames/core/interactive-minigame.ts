@@ -0,0 +1,180 @@
+/**
+ * Interactive Minigame Base
+ * Shared clock for the 'interactive' minigames (tap race, reaction, memory)
+ * Time only advances while the game runs and isn't paused, so everything a game
+ * schedules against getElapsed() (lights, sequence flashes, time limits) pauses with it
+ */
+
+import type { IMinigame, MinigameResult } from './types';
+import { RNG } from '../../core/rng';
+
+const TICK_MS = 50; // Clock resolution
+
+export const INTERACTIVE_POINTS = 10; // pointsEarned for a win (the board pays rules.rewards.minigameWin)
+
+export abstract class InteractiveMinigame implements IMinigame {
+    abstract id: string;
+    abstract nameAr: string;
+    abstract nameEn: string;
+    abstract instructionsAr: string; // Shown above the game
+    type: 'interactive' = 'interactive';
+
+    protected rng: RNG = new RNG();
+    protected timeLimit: number = 0; // ms - set by each game in reset()
+    private elapsed: number = 0;
+    private lastTick: number = 0;
+    private timerInterval: number | null = null;
+    private isPaused: boolean = false;
+    private isFinished: boolean = false;
+    private cpuWins: boolean | null = null; // Set when a CPU plays instead of a human
+
+    // Callbacks
+    onComplete: (result: MinigameResult) => void = () => { };
+    onTimeUpdate: (remaining: number) => void = () => { };
+    onUpdate: () => void = () => { }; // Game state changed - redraw
+
+    /**
+     * Prepare a new round
+     * @param rng - Random source for the round (lights, sequences); a fresh one when omitted
+     */
+    async initialize(rng?: RNG): Promise<void> {
+        this.stopTimer();
+        this.rng = rng ?? new RNG();
+        this.elapsed = 0;
+        this.isPaused = false;
+        this.isFinished = false;
+        this.cpuWins = null;
+        this.reset();
+    }
+
+    /**
+     * Let a CPU play this round - it plays to the decided result through the same inputs a human uses
+     */
+    playAsCpu(win: boolean): void {
+        this.cpuWins = win;
+    }
+
+    /**
+     * Start the clock
+     */
+    start(): void {
+        this.stopTimer();
+        this.lastTick = Date.now();
+        this.timerInterval = window.setInterval(() => this.tick(), TICK_MS);
+        this.onUpdate();
+    }
+
+    /**
+     * Pause the clock - input is ignored until resume()
+     */
+    pause(): void {
+        this.isPaused = true;
+        this.onUpdate();
+    }
+
+    /**
+     * Resume the clock
+     */
+    resume(): void {
+        this.lastTick = Date.now();
+        this.isPaused = false;
+        this.onUpdate();
+    }
+
+    /**
+     * End without finishing (for external cleanup) - counts as a loss
+     */
+    end(): MinigameResult {
+        this.stopTimer();
+        this.isFinished = true;
+        return this.buildResult(false);
+    }
+
+    // ============ GETTERS ============
+
+    getElapsed(): number {
+        return this.elapsed;
+    }
+
+    getTimeRemaining(): number {
+        return Math.max(0, Math.ceil((this.timeLimit - this.elapsed) / 1000));
+    }
+
+    getIsPaused(): boolean {
+        return this.isPaused;
+    }
+
+    getIsFinished(): boolean {
+        return this.isFinished;
+    }
+
+    isCpuPlaying(): boolean {
+        return this.cpuWins !== null;
+    }
+
+    /** Score of the round so far, for ranking players against each other (higher is better) */
+    abstract getScore(): number;
+
+    // ============ FOR SUBCLASSES ============
+
+    /** Set up the round's state (called by initialize) */
+    protected abstract reset(): void;
+
+    /** Advance time-based state (called on every tick while running) */
+    protected abstract update(): void;
+
+    /** Make the CPU's inputs for this tick, heading for the given result */
+    protected abstract updateCpu(win: boolean): void;
+
+    /** Whether input counts right now */
+    protected acceptsInput(): boolean {
+        return this.timerInterval !== null && !this.isPaused && !this.isFinished;
+    }
+
+    /**
+     * Finish the round and report the result
+     */
+    protected finish(success: boolean): void {
+        if (this.isFinished) return;
+        this.isFinished = true;
+        this.stopTimer();
+        this.onUpdate();
+        this.onComplete(this.buildResult(success));
+    }
+
+    private tick(): void {
+        const now = Date.now();
+        if (!this.isPaused) {
+            this.elapsed += now - this.lastTick;
+        }
+        this.lastTick = now;
+        if (this.isPaused) return;
+
+        this.update();
+        if (this.cpuWins !== null && !this.isFinished) {
+            this.updateCpu(this.cpuWins);
+        }
+        if (this.isFinished) return;
+        this.onTimeUpdate(this.getTimeRemaining());
+        if (this.elapsed >= this.timeLimit) {
+            this.finish(false);
+        }
+    }
+
+    private buildResult(success: boolean): MinigameResult {
+        return {
+            success,
+            pointsEarned: success ? INTERACTIVE_POINTS : 0,
+            timeTaken: Math.floor(this.elapsed / 1000),
+            questionId: '',
+            answeredCorrectly: success
+        };
+    }
+
+    private stopTimer(): void {
+        if (this.timerInterval) {
+            clearInterval(this.timerInterval);
+            this.timerInterval = null;
+        }
+    }
+}
@@ -1,26 +1,53 @@
 /**
  * Minigame Registry
  * Factory pattern for managing minigame types
+ * The core MINIGAME_CATALOG is the only list of minigames - the registry pairs each entry with its factory,
+ * so what it finds and picks is exactly what TurnMachine picks from; picks draw from the caller's RNG so they replay with the match
  */
 
 import type { IMinigame } from './types';
+import { RNG } from '../../core/rng';
+import {
+    MinigameMetadata,
+    MinigameType,
+    MinigameCriteria,
+    MINIGAME_CATALOG,
+    findMinigames,
+    pickMinigame
+} from '../../core/minigame-catalog';
 import { createTriviaMinigame } from '../games/trivia-minigame';
+import { createTapRaceMinigame } from '../games/tap-race-minigame';
+import { createReactionMinigame } from '../games/reaction-minigame';
+import { createMemoryMinigame } from '../games/memory-minigame';
+import { createFallingPlatformsMinigame } from '../games/falling-platforms-minigame';
 
 type MinigameFactory = () => IMinigame;
 
+/** Factories of the catalog's minigames */
+const FACTORIES: Record<string, MinigameFactory> = {
+    'trivia': createTriviaMinigame,
+    'tap-race': createTapRaceMinigame,
+    'reaction': createReactionMinigame,
+    'memory': createMemoryMinigame,
+    'falling-platforms': createFallingPlatformsMinigame
+};
+
 class MinigameRegistry {
     private factories: Map<string, MinigameFactory> = new Map();
 
     constructor() {
-        // Register default minigames
-        this.register('trivia', createTriviaMinigame);
-    }
-
-    /**
-     * Register a minigame factory
-     */
-    register(id: string, factory: MinigameFactory): void {
-        this.factories.set(id, factory);
+        // A new minigame is added to MINIGAME_CATALOG and given a factory above
+        MINIGAME_CATALOG.forEach(metadata => {
+            const factory = FACTORIES[metadata.id];
+            if (!factory) throw new Error(`No factory for catalog minigame ${metadata.id}`);
+            if (metadata.minPlayers < 1 || metadata.maxPlayers < metadata.minPlayers) {
+                throw new Error(`Minigame ${metadata.id} has an invalid player range (${metadata.minPlayers}-${metadata.maxPlayers})`);
+            }
+            if (!(metadata.weight >= 0)) {
+                throw new Error(`Minigame ${metadata.id} has an invalid weight (${metadata.weight})`);
+            }
+            this.factories.set(metadata.id, factory);
+        });
     }
 
     /**
@@ -36,30 +63,39 @@ class MinigameRegistry {
     }
 
     /**
-     * Get a random minigame
+     * Get a minigame's metadata by ID
      */
-    getRandom(): IMinigame | null {
-        const ids = Array.from(this.factories.keys());
-        if (ids.length === 0) return null;
+    getMetadata(id: string): MinigameMetadata | null {
+        return MINIGAME_CATALOG.find(metadata => metadata.id === id) ?? null;
+    }
 
-        const randomId = ids[Math.floor(Math.random() * ids.length)];
-        return this.get(randomId);
+    /**
+     * Metadata of the minigames matching the criteria (in catalog order)
+     */
+    find(criteria: MinigameCriteria = {}): MinigameMetadata[] {
+        return findMinigames(criteria);
     }
 
     /**
-     * Get all minigames of a specific type
+     * Pick a minigame matching the criteria (see pickMinigame)
      */
-    getByType(type: 'trivia' | 'interactive'): IMinigame[] {
-        const games: IMinigame[] = [];
+    pick(rng: RNG, criteria: MinigameCriteria = {}): MinigameMetadata | null {
+        return pickMinigame(rng, criteria);
+    }
 
-        this.factories.forEach((factory) => {
-            const game = factory();
-            if (game.type === type) {
-                games.push(game);
-            }
-        });
+    /**
+     * Get a random minigame instance (see pick)
+     */
+    getRandom(rng: RNG, criteria: MinigameCriteria = {}): IMinigame | null {
+        const picked = this.pick(rng, criteria);
+        return picked ? this.get(picked.id) : null;
+    }
 
-        return games;
+    /**
+     * Metadata of all minigames of a specific type
+     */
+    getByType(type: MinigameType): MinigameMetadata[] {
+        return this.find({ type });
     }
 
     /**
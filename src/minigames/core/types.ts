@@ -3,6 +3,11 @@
  * Designed for loose coupling and app portability
  */
 
+import type { Scene } from '@babylonjs/core/scene';
+import type { TransformNode } from '@babylonjs/core/Meshes/transformNode';
+import type { Player } from '../../core/game-state';
+import type { MinigameType } from '../../core/minigame-catalog';
+
 // ============ ENUMS ============
 
 export type QuestionType = 'text' | 'audio' | 'video';
@@ -72,11 +77,14 @@ export interface MinigameResult {
 
 // ============ MINIGAME INTERFACE ============
 
+// What the registry knows about a minigame without creating one lives in the core catalog
+export type { MinigameType, MinigameMetadata } from '../../core/minigame-catalog';
+
 export interface IMinigame {
     id: string;
     nameAr: string;
     nameEn: string;
-    type: 'trivia' | 'interactive';
+    type: MinigameType;
 
     // Lifecycle
     initialize(): Promise<void>;
@@ -90,6 +98,30 @@ export interface IMinigame {
     onTimeUpdate: (remaining: number) => void;
 }
 
+// ============ 3D MINIGAMES ============
+
+/**
+ * What MinigameScene hands a 3D minigame to draw itself with
+ */
+export interface MinigameStage {
+    scene: Scene; // A fresh scene, rendered while the game plays - disposing it tears everything down
+    canvas: HTMLCanvasElement; // For input
+    players: Player[]; // Who is playing this go
+    loadCharacter(modelPath: string, height: number): Promise<TransformNode>; // Model standing on y = 0, scaled to height
+}
+
+/**
+ * A minigame that owns the Babylon scene while it plays: it builds its camera, meshes and input
+ * in mountScene(), and disposes all of them in end()
+ */
+export interface IMinigame3D extends IMinigame {
+    mountScene(stage: MinigameStage): Promise<void>;
+}
+
+export function isMinigame3D(game: IMinigame): game is IMinigame3D {
+    return typeof (game as IMinigame3D).mountScene === 'function';
+}
+
 // ============ SERVICE INTERFACES ============
 
 export interface IQuestionService {
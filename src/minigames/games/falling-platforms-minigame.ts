@@ -0,0 +1,222 @@
+/**
+ * Falling Platforms Minigame
+ * Stand on a grid of platforms - one starts shaking every DROP_INTERVAL and falls SHAKE_TIME later
+ * Step off before it drops and survive FALLING_TIME to win - the solid platforms always stay connected, so there is always a way out
+ * Drawn in 3D (see falling-platforms-view.ts); the rules here don't need Babylon
+ */
+
+import type { IMinigame3D, MinigameResult, MinigameStage } from '../core/types';
+import { InteractiveMinigame } from '../core/interactive-minigame';
+
+export const FALLING_GRID = 4; // Platforms per side
+export const FALLING_TIME = 15000; // ms to survive
+export const SHAKE_TIME = 900; // ms a platform shakes before it falls
+const DROP_INTERVAL = 1000; // ms between platforms starting to shake
+const MIN_PLATFORMS = 2; // Platforms that never start shaking
+const TARGET_PLAYER_CHANCE = 0.5; // Chance the next platform to shake is the player's own
+
+const CPU_STEP_DELAY = 300; // ms between a winning CPU's steps (a losing one stays put)
+
+export type PlatformState = 'solid' | 'shaking' | 'fallen';
+
+/** Drawn by FallingPlatformsView - loaded on demand so the rules (and the headless CLI) never pull in Babylon */
+interface SceneView {
+    dispose(): void;
+}
+
+export class FallingPlatformsMinigame extends InteractiveMinigame implements IMinigame3D {
+    id = 'falling-platforms';
+    nameAr = 'المنصات المتساقطة';
+    nameEn = 'Falling Platforms';
+    instructionsAr = 'تنقّل بالأسهم أو بالنقر على منصة مجاورة، وابتعد عن المنصات التي تهتز قبل أن تسقط!';
+
+    private platforms: PlatformState[] = new Array(FALLING_GRID * FALLING_GRID).fill('solid');
+    private shakeStarts: (number | null)[] = new Array(FALLING_GRID * FALLING_GRID).fill(null); // Elapsed ms each platform started shaking
+    private position: number = 0;
+    private fellAt: number | null = null; // Elapsed ms the player fell
+    private nextDropAt: number = 0;
+    private lastCpuStep: number = 0;
+    private view: SceneView | null = null;
+
+    /**
+     * Build the 3D scene - the players' characters on the platform grid, with keyboard and tap input
+     */
+    async mountScene(stage: MinigameStage): Promise<void> {
+        this.view?.dispose();
+        const { FallingPlatformsView } = await import('./falling-platforms-view');
+        this.view = await FallingPlatformsView.create(this, stage);
+    }
+
+    /**
+     * Ends the round and tears down its scene
+     */
+    end(): MinigameResult {
+        const result = super.end();
+        this.view?.dispose();
+        this.view = null;
+        return result;
+    }
+
+    /**
+     * Step to the neighbouring platform in a direction (dx: columns, dz: rows)
+     */
+    move(dx: number, dz: number): void {
+        const col = this.position % FALLING_GRID + dx;
+        const row = Math.floor(this.position / FALLING_GRID) + dz;
+        if (col < 0 || col >= FALLING_GRID || row < 0 || row >= FALLING_GRID) return;
+        this.stepTo(row * FALLING_GRID + col);
+    }
+
+    /**
+     * Step onto a platform next to the player's (tapping a platform) - fallen platforms can't be stood on
+     */
+    stepTo(index: number): void {
+        if (!this.acceptsInput() || !this.getNeighbours(this.position).includes(index)) return;
+        if (this.platforms[index] === 'fallen') return;
+        this.position = index;
+        this.onUpdate();
+    }
+
+    getPlatform(index: number): PlatformState {
+        return this.platforms[index];
+    }
+
+    /** Elapsed ms the platform started shaking (null while it is solid) */
+    getShakeStart(index: number): number | null {
+        return this.shakeStarts[index];
+    }
+
+    getPosition(): number {
+        return this.position;
+    }
+
+    getPlatformsLeft(): number {
+        return this.platforms.filter(platform => platform !== 'fallen').length;
+    }
+
+    hasFallen(): boolean {
+        return this.fellAt !== null;
+    }
+
+    /**
+     * Tenths of a second survived
+     */
+    getScore(): number {
+        const survived = this.fellAt ?? Math.min(this.getElapsed(), FALLING_TIME);
+        return Math.floor(survived / 100);
+    }
+
+    protected reset(): void {
+        this.platforms = this.platforms.map(() => 'solid');
+        this.shakeStarts = this.shakeStarts.map(() => null);
+        // Start next to the middle of the grid
+        const middle = Math.floor((FALLING_GRID - 1) / 2);
+        this.position = middle * FALLING_GRID + middle;
+        this.fellAt = null;
+        this.nextDropAt = DROP_INTERVAL;
+        this.lastCpuStep = 0;
+        this.timeLimit = FALLING_TIME;
+    }
+
+    protected update(): void {
+        const elapsed = this.getElapsed();
+
+        this.shakeStarts.forEach((start, index) => {
+            if (start !== null && this.platforms[index] === 'shaking' && elapsed - start >= SHAKE_TIME) {
+                this.platforms[index] = 'fallen';
+            }
+        });
+        if (this.platforms[this.position] === 'fallen') {
+            this.fellAt = elapsed;
+            this.finish(false);
+            return;
+        }
+        if (elapsed >= FALLING_TIME) {
+            this.finish(true);
+            return;
+        }
+
+        while (elapsed >= this.nextDropAt) {
+            this.shakeNext(this.nextDropAt);
+            this.nextDropAt += DROP_INTERVAL;
+        }
+        this.onUpdate();
+    }
+
+    /**
+     * A winning CPU steps off shaking platforms and out of corners, towards the most open solid platform
+     */
+    protected updateCpu(win: boolean): void {
+        if (!win || this.getElapsed() - this.lastCpuStep < CPU_STEP_DELAY) return;
+
+        const openness = (index: number): number => this.getNeighbours(index)
+            .filter(neighbour => this.platforms[neighbour] === 'solid').length;
+        const shaking = this.platforms[this.position] === 'shaking';
+        if (!shaking && openness(this.position) >= 2) return;
+
+        const best = this.getNeighbours(this.position)
+            .filter(index => this.platforms[index] === 'solid')
+            .sort((a, b) => openness(b) - openness(a))[0];
+        if (best !== undefined && (shaking || openness(best) > openness(this.position))) {
+            this.lastCpuStep = this.getElapsed();
+            this.stepTo(best);
+        }
+    }
+
+    /**
+     * Start the next platform shaking - often the one the player stands on, so they have to move
+     */
+    private shakeNext(at: number): void {
+        const solid = this.platforms
+            .map((platform, index) => platform === 'solid' ? index : -1)
+            .filter(index => index >= 0);
+        if (solid.length <= MIN_PLATFORMS) return;
+
+        const candidates = solid.filter(index => this.leavesWayOut(solid.filter(other => other !== index)));
+        if (candidates.length === 0) return;
+        const target = candidates.includes(this.position) && this.rng.random() < TARGET_PLAYER_CHANCE
+            ? this.position
+            : this.rng.pick(candidates);
+        this.platforms[target] = 'shaking';
+        this.shakeStarts[target] = at;
+    }
+
+    /**
+     * Whether these solid platforms are all connected, with the player on one of them or next to one
+     */
+    private leavesWayOut(solid: number[]): boolean {
+        if (!solid.includes(this.position) && !this.getNeighbours(this.position).some(index => solid.includes(index))) {
+            return false;
+        }
+        const reached = new Set([solid[0]]);
+        const queue = [solid[0]];
+        while (queue.length > 0) {
+            this.getNeighbours(queue.shift()!).forEach(next => {
+                if (solid.includes(next) && !reached.has(next)) {
+                    reached.add(next);
+                    queue.push(next);
+                }
+            });
+        }
+        return reached.size === solid.length;
+    }
+
+    /**
+     * Platforms sharing an edge with this one
+     */
+    private getNeighbours(index: number): number[] {
+        const col = index % FALLING_GRID;
+        const row = Math.floor(index / FALLING_GRID);
+        return [[1, 0], [-1, 0], [0, 1], [0, -1]]
+            .map(([dx, dz]) => [col + dx, row + dz])
+            .filter(([c, r]) => c >= 0 && c < FALLING_GRID && r >= 0 && r < FALLING_GRID)
+            .map(([c, r]) => r * FALLING_GRID + c);
+    }
+}
+
+/**
+ * Factory function for registry
+ */
+export function createFallingPlatformsMinigame(): FallingPlatformsMinigame {
+    return new FallingPlatformsMinigame();
+}
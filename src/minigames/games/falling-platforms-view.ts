@@ -0,0 +1,185 @@
+/**
+ * Falling Platforms View
+ * Draws a FallingPlatformsMinigame in the scene MinigameScene hands it and feeds keyboard / tap input into it
+ * Everything is synced from the game every frame, so pausing the game freezes the shaking and falling too
+ * Everyone in stage.players plays this go together (a team's members share it), so their characters stand side by side on one platform
+ */
+
+import { Vector3, Color3, Color4 } from '@babylonjs/core/Maths/math';
+import { HemisphericLight } from '@babylonjs/core/Lights/hemisphericLight';
+import { DirectionalLight } from '@babylonjs/core/Lights/directionalLight';
+import { ArcRotateCamera } from '@babylonjs/core/Cameras/arcRotateCamera';
+import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder';
+import { Mesh } from '@babylonjs/core/Meshes/mesh';
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode';
+import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial';
+import type { MinigameStage } from '../core/types';
+import type { Player } from '../../core/game-state';
+import { FallingPlatformsMinigame, FALLING_GRID, SHAKE_TIME } from './falling-platforms-minigame';
+
+const PLATFORM_SPACING = 2.2;
+const PLATFORM_SIZE = 1.9;
+const CHARACTER_HEIGHT = 1.6;
+const CHARACTER_SPACING = 0.8; // Sideways gap between characters sharing the platform
+const FALL_SPEED = 14; // Units per second a platform (or the player) drops
+const FALL_DEPTH = 30; // Hidden once it has dropped this far
+
+const SOLID_COLOR = new Color3(0.35, 0.55, 0.95);
+const SHAKING_COLOR = new Color3(0.95, 0.3, 0.25);
+
+/** Arrow keys / WASD → grid step */
+const KEY_STEPS: Record<string, [number, number]> = {
+    ArrowLeft: [-1, 0], a: [-1, 0],
+    ArrowRight: [1, 0], d: [1, 0],
+    ArrowUp: [0, 1], w: [0, 1],
+    ArrowDown: [0, -1], s: [0, -1]
+};
+
+export class FallingPlatformsView {
+    private game: FallingPlatformsMinigame;
+    private stage: MinigameStage;
+    private platforms: Mesh[] = [];
+    private materials: StandardMaterial[] = [];
+    private characters: TransformNode[] = [];
+    private onKeyDown = (e: KeyboardEvent) => this.handleKey(e);
+    private onPointerDown = (e: PointerEvent) => this.handlePointer(e);
+
+    private constructor(game: FallingPlatformsMinigame, stage: MinigameStage) {
+        this.game = game;
+        this.stage = stage;
+    }
+
+    /**
+     * Build the scene - resolves once every player's character has loaded
+     */
+    static async create(game: FallingPlatformsMinigame, stage: MinigameStage): Promise<FallingPlatformsView> {
+        const view = new FallingPlatformsView(game, stage);
+        view.setupScene();
+        view.characters = await Promise.all(stage.players.map((player, index) => view.loadCharacter(player, index)));
+
+        stage.scene.onBeforeRenderObservable.add(() => view.sync());
+        window.addEventListener('keydown', view.onKeyDown);
+        stage.canvas.addEventListener('pointerdown', view.onPointerDown);
+        return view;
+    }
+
+    /**
+     * Remove the input listeners and dispose the scene (camera, lights, meshes and observers with it)
+     */
+    dispose(): void {
+        window.removeEventListener('keydown', this.onKeyDown);
+        this.stage.canvas.removeEventListener('pointerdown', this.onPointerDown);
+        // MinigameScene already disposed it when another game was mounted
+        if (!this.stage.scene.isDisposed) this.stage.scene.dispose();
+    }
+
+    private setupScene(): void {
+        const scene = this.stage.scene;
+        scene.clearColor = new Color4(0.05, 0.07, 0.15, 1);
+
+        // Fixed camera looking down at the grid from the "down" (row 0) side
+        const camera = new ArcRotateCamera('falling_camera', -Math.PI / 2, Math.PI / 3.4, 16, Vector3.Zero(), scene);
+        scene.activeCamera = camera;
+
+        const hemiLight = new HemisphericLight('falling_hemi', new Vector3(0, 1, 0), scene);
+        hemiLight.intensity = 0.7;
+        const dirLight = new DirectionalLight('falling_sun', new Vector3(-1, -2, 1), scene);
+        dirLight.intensity = 0.8;
+
+        for (let index = 0; index < FALLING_GRID * FALLING_GRID; index++) {
+            const platform = MeshBuilder.CreateBox(`falling_platform_${index}`, { width: PLATFORM_SIZE, depth: PLATFORM_SIZE, height: 0.4 }, scene);
+            const material = new StandardMaterial(`falling_platform_mat_${index}`, scene);
+            material.diffuseColor = SOLID_COLOR;
+            platform.material = material;
+            this.platforms.push(platform);
+            this.materials.push(material);
+        }
+    }
+
+    /**
+     * A player's character model - a capsule in their colour when it can't be loaded
+     */
+    private async loadCharacter(player: Player, index: number): Promise<TransformNode> {
+        try {
+            return await this.stage.loadCharacter(player.characterModel, CHARACTER_HEIGHT);
+        } catch (error) {
+            console.warn(`[FallingPlatforms] Using a capsule for ${player.name}'s character:`, error);
+            const capsule = MeshBuilder.CreateCapsule(`falling_player_${index}`, { height: CHARACTER_HEIGHT, radius: 0.35 }, this.stage.scene);
+            capsule.position.y = CHARACTER_HEIGHT / 2;
+            const material = new StandardMaterial(`falling_player_mat_${index}`, this.stage.scene);
+            material.diffuseColor = Color3.FromHexString(player.color);
+            capsule.material = material;
+            const character = new TransformNode(`falling_character_${index}`, this.stage.scene);
+            capsule.parent = character;
+            return character;
+        }
+    }
+
+    /**
+     * Grid centre of a platform
+     */
+    private getPlatformPosition(index: number): Vector3 {
+        const offset = (FALLING_GRID - 1) / 2;
+        return new Vector3(
+            (index % FALLING_GRID - offset) * PLATFORM_SPACING,
+            0,
+            (Math.floor(index / FALLING_GRID) - offset) * PLATFORM_SPACING
+        );
+    }
+
+    /**
+     * How far a platform has dropped (0 until it falls)
+     */
+    private getDrop(index: number): number {
+        const start = this.game.getShakeStart(index);
+        if (this.game.getPlatform(index) !== 'fallen' || start === null) return 0;
+        const falling = Math.max(0, this.game.getElapsed() - start - SHAKE_TIME) / 1000;
+        return Math.min(FALL_DEPTH, falling * FALL_SPEED);
+    }
+
+    /**
+     * Move every mesh to match the game
+     */
+    private sync(): void {
+        const elapsed = this.game.getElapsed();
+
+        this.platforms.forEach((platform, index) => {
+            const position = this.getPlatformPosition(index);
+            const state = this.game.getPlatform(index);
+            if (state === 'shaking') {
+                position.x += Math.sin(elapsed / 25 + index) * 0.08;
+                position.z += Math.cos(elapsed / 31 + index) * 0.08;
+            }
+            position.y = -this.getDrop(index);
+            platform.position = position;
+            platform.setEnabled(position.y > -FALL_DEPTH);
+            this.materials[index].diffuseColor = state === 'solid' ? SOLID_COLOR : SHAKING_COLOR;
+        });
+
+        // Glide to the platform being played (and drop with it after falling), side by side
+        const current = this.game.getPosition();
+        const centre = this.getPlatformPosition(current);
+        centre.y = 0.2 - this.getDrop(current);
+        this.characters.forEach((character, index) => {
+            const target = centre.add(new Vector3((index - (this.characters.length - 1) / 2) * CHARACTER_SPACING, 0, 0));
+            character.position = this.game.hasFallen() ? target : Vector3.Lerp(character.position, target, 0.3);
+        });
+    }
+
+    private handleKey(e: KeyboardEvent): void {
+        const step = KEY_STEPS[e.key] ?? KEY_STEPS[e.key.toLowerCase()];
+        if (!step || this.game.isCpuPlaying()) return;
+        e.preventDefault();
+        this.game.move(step[0], step[1]);
+    }
+
+    /**
+     * Tapping a platform steps onto it (when it is next to the player's)
+     */
+    private handlePointer(e: PointerEvent): void {
+        if (this.game.isCpuPlaying()) return;
+        const pickResult = this.stage.scene.pick(e.offsetX, e.offsetY, (mesh) => mesh.name.startsWith('falling_platform_'));
+        if (!pickResult?.hit || !pickResult.pickedMesh) return;
+        this.game.stepTo(parseInt(pickResult.pickedMesh.name.split('_')[2]));
+    }
+}
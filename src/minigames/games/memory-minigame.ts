@@ -0,0 +1,135 @@
+/**
+ * Memory Minigame
+ * Simon-style: watch the pads flash in order, then repeat the sequence
+ * Every round adds one more flash; repeating the last round wins, a wrong pad loses
+ */
+
+import { InteractiveMinigame } from '../core/interactive-minigame';
+
+export const MEMORY_PADS = 4;
+export const MEMORY_ROUNDS: [number, number] = [3, 5]; // Sequence length of the first and last round
+const MEMORY_TIME = 30000; // ms for the whole game
+const FLASH_MS = 600; // How long each pad stays lit
+const FLASH_GAP_MS = 200; // Dark pause between flashes
+
+const CPU_STEP = 500; // ms between a CPU's pad choices
+
+export type MemoryPhase = 'showing' | 'input';
+
+export class MemoryMinigame extends InteractiveMinigame {
+    id = 'memory';
+    nameAr = 'تسلسل الذاكرة';
+    nameEn = 'Memory Sequence';
+    instructionsAr = 'احفظ ترتيب الأضواء ثم أعده بالترتيب نفسه!';
+
+    private sequence: number[] = []; // The full last-round sequence - a round uses a prefix of it
+    private roundLength: number = 0;
+    private phase: MemoryPhase = 'showing';
+    private phaseStartedAt: number = 0; // Elapsed ms when the phase began
+    private progress: number = 0; // Pads repeated correctly this round
+
+    /**
+     * Choose a pad during the input phase
+     */
+    choose(pad: number): void {
+        if (!this.acceptsInput() || this.phase !== 'input') return;
+        if (pad !== this.sequence[this.progress]) {
+            this.finish(false);
+            return;
+        }
+
+        this.progress++;
+        if (this.progress < this.roundLength) {
+            this.onUpdate();
+        } else if (this.roundLength >= MEMORY_ROUNDS[1]) {
+            this.finish(true);
+        } else {
+            this.roundLength++;
+            this.startPhase('showing');
+        }
+    }
+
+    getPhase(): MemoryPhase {
+        return this.phase;
+    }
+
+    /**
+     * Pad lit right now while the sequence is shown (null between flashes and during input)
+     */
+    getLitPad(): number | null {
+        if (this.phase !== 'showing') return null;
+        const sinceStart = this.getElapsed() - this.phaseStartedAt;
+        const step = Math.floor(sinceStart / (FLASH_MS + FLASH_GAP_MS));
+        if (step >= this.roundLength || sinceStart % (FLASH_MS + FLASH_GAP_MS) >= FLASH_MS) return null;
+        return this.sequence[step];
+    }
+
+    getRound(): number {
+        return this.roundLength - MEMORY_ROUNDS[0] + 1;
+    }
+
+    getRoundCount(): number {
+        return MEMORY_ROUNDS[1] - MEMORY_ROUNDS[0] + 1;
+    }
+
+    getProgress(): number {
+        return this.progress;
+    }
+
+    getRoundLength(): number {
+        return this.roundLength;
+    }
+
+    /**
+     * Pads repeated correctly over every round
+     */
+    getScore(): number {
+        let completed = 0;
+        for (let length = MEMORY_ROUNDS[0]; length < this.roundLength; length++) {
+            completed += length;
+        }
+        return completed + this.progress;
+    }
+
+    protected reset(): void {
+        this.sequence = Array.from({ length: MEMORY_ROUNDS[1] }, () => this.rng.randomInt(0, MEMORY_PADS - 1));
+        this.roundLength = MEMORY_ROUNDS[0];
+        this.timeLimit = MEMORY_TIME;
+        this.startPhase('showing');
+    }
+
+    protected update(): void {
+        if (this.phase === 'showing') {
+            const showTime = this.roundLength * (FLASH_MS + FLASH_GAP_MS);
+            if (this.getElapsed() - this.phaseStartedAt >= showTime) {
+                this.startPhase('input');
+            } else {
+                this.onUpdate();
+            }
+        }
+    }
+
+    protected updateCpu(win: boolean): void {
+        if (this.phase !== 'input') return;
+        if (this.getElapsed() - this.phaseStartedAt < (this.progress + 1) * CPU_STEP) return;
+
+        // A losing CPU slips on the last pad of the last round
+        const slips = !win && this.roundLength >= MEMORY_ROUNDS[1] && this.progress === this.roundLength - 1;
+        const pad = this.sequence[this.progress];
+        this.choose(slips ? (pad + 1) % MEMORY_PADS : pad);
+    }
+
+    private startPhase(phase: MemoryPhase): void {
+        this.phase = phase;
+        this.phaseStartedAt = this.getElapsed();
+        this.progress = 0;
+        this.onUpdate();
+    }
+}
+
+/**
+ * Factory function for registry
+ */
+export function createMemoryMinigame(): MemoryMinigame {
+    return new MemoryMinigame();
+}
@@ -0,0 +1,83 @@
+/**
+ * Reaction Minigame
+ * Wait for the light, then press within REACTION_WINDOW
+ * Pressing before the light comes on is a false start and loses
+ */
+
+import { InteractiveMinigame } from '../core/interactive-minigame';
+
+export const REACTION_WINDOW = 450; // ms allowed after the light comes on
+const LIGHT_DELAY: [number, number] = [1500, 4000]; // ms range before the light comes on
+
+const CPU_REACTION = 250; // ms a winning CPU takes to press (a losing one never presses)
+
+export class ReactionMinigame extends InteractiveMinigame {
+    id = 'reaction';
+    nameAr = 'ضوء الانطلاق';
+    nameEn = 'Reaction Light';
+    instructionsAr = 'انتظر حتى يضيء الضوء ثم اضغط بأسرع ما يمكن!';
+
+    private lightAt: number = 0; // Elapsed ms when the light comes on
+    private reactionTime: number | null = null;
+    private falseStart: boolean = false;
+
+    /**
+     * Press the button - before the light is a false start, after it records the reaction time
+     */
+    press(): void {
+        if (!this.acceptsInput()) return;
+        if (!this.isLightOn()) {
+            this.falseStart = true;
+            this.finish(false);
+            return;
+        }
+        this.reactionTime = this.getElapsed() - this.lightAt;
+        this.finish(this.reactionTime <= REACTION_WINDOW);
+    }
+
+    isLightOn(): boolean {
+        return this.getElapsed() >= this.lightAt;
+    }
+
+    getReactionTime(): number | null {
+        return this.reactionTime;
+    }
+
+    isFalseStart(): boolean {
+        return this.falseStart;
+    }
+
+    /**
+     * Milliseconds to spare within the reaction window - 0 for a false start, a late press or no press
+     */
+    getScore(): number {
+        if (this.reactionTime === null) return 0;
+        return Math.max(0, REACTION_WINDOW - this.reactionTime);
+    }
+
+    protected reset(): void {
+        this.lightAt = this.rng.randomInt(LIGHT_DELAY[0], LIGHT_DELAY[1]);
+        this.reactionTime = null;
+        this.falseStart = false;
+        // Not pressing in time after the light loses
+        this.timeLimit = this.lightAt + REACTION_WINDOW;
+    }
+
+    protected update(): void {
+        // The light is derived from the clock - just redraw when it comes on
+        this.onUpdate();
+    }
+
+    protected updateCpu(win: boolean): void {
+        if (win && this.getElapsed() >= this.lightAt + CPU_REACTION) {
+            this.press();
+        }
+    }
+}
+
+/**
+ * Factory function for registry
+ */
+export function createReactionMinigame(): ReactionMinigame {
+    return new ReactionMinigame();
+}
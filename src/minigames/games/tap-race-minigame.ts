@@ -0,0 +1,63 @@
+/**
+ * Tap Race Minigame
+ * Tap the button TAP_RACE_TARGET times before the time runs out
+ */
+
+import { InteractiveMinigame } from '../core/interactive-minigame';
+
+export const TAP_RACE_TARGET = 25;
+export const TAP_RACE_TIME = 6000; // ms
+
+const CPU_TAP_INTERVAL = { win: 160, lose: 280 }; // ms between CPU taps (280 falls short of the target)
+
+export class TapRaceMinigame extends InteractiveMinigame {
+    id = 'tap-race';
+    nameAr = 'سباق النقر';
+    nameEn = 'Tap Race';
+    instructionsAr = `انقر ${TAP_RACE_TARGET} مرة قبل انتهاء الوقت!`;
+
+    private taps: number = 0;
+
+    /**
+     * Count a tap - reaching the target wins
+     */
+    tap(): void {
+        if (!this.acceptsInput()) return;
+        this.taps++;
+        this.onUpdate();
+        if (this.taps >= TAP_RACE_TARGET) {
+            this.finish(true);
+        }
+    }
+
+    getTaps(): number {
+        return this.taps;
+    }
+
+    getScore(): number {
+        return this.taps;
+    }
+
+    protected reset(): void {
+        this.taps = 0;
+        this.timeLimit = TAP_RACE_TIME;
+    }
+
+    protected update(): void {
+        // Nothing moves on its own - only taps and the clock
+    }
+
+    protected updateCpu(win: boolean): void {
+        const due = Math.floor(this.getElapsed() / CPU_TAP_INTERVAL[win ? 'win' : 'lose']);
+        while (this.taps < due && !this.getIsFinished()) {
+            this.tap();
+        }
+    }
+}
+
+/**
+ * Factory function for registry
+ */
+export function createTapRaceMinigame(): TapRaceMinigame {
+    return new TapRaceMinigame();
+}
@@ -9,6 +9,11 @@ export * from './core/types';
 export { supabase, isSupabaseConfigured } from './core/supabase-client';
 export { questionService, QuestionService } from './core/question-service';
 export { minigameRegistry } from './core/minigame-registry';
+export { InteractiveMinigame, INTERACTIVE_POINTS } from './core/interactive-minigame';
 
 // Games
 export { TriviaMinigame, createTriviaMinigame } from './games/trivia-minigame';
+export { TapRaceMinigame, createTapRaceMinigame, TAP_RACE_TARGET } from './games/tap-race-minigame';
+export { ReactionMinigame, createReactionMinigame } from './games/reaction-minigame';
+export { MemoryMinigame, createMemoryMinigame, MEMORY_PADS } from './games/memory-minigame';
+export { FallingPlatformsMinigame, createFallingPlatformsMinigame } from './games/falling-platforms-minigame';
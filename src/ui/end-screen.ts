@@ -1,16 +1,25 @@
-import { GameState as GameStateType } from '../core/game-state';
+import { GameState as GameStateType, rankPlayers, rankTeams } from '../core/game-state';
+import { BONUS_AWARDS } from '../core/bonus-awards';
+import { LEDGER_REASONS, getLedgerBreakdown } from '../core/points-ledger';
 
 /**
  * EndScreen - Shows final score and game over message
+ * Bonus awards are revealed one by one first, then the final results (with the winner after the awards)
+ * Every score row is followed by where its coins / stars came from (points ledger breakdown)
  */
 
+const AWARD_REVEAL_DELAY = 2000; // ms between bonus award reveals
+
 export class EndScreen {
   private container: HTMLElement;
   private onRestart: () => void;
+  private onWatchReplay?: () => void;
+  private revealId: number = 0; // Bumped by hide() so an unfinished award reveal stops
 
-  constructor(container: HTMLElement, onRestart: () => void) {
+  constructor(container: HTMLElement, onRestart: () => void, onWatchReplay?: () => void) {
     this.container = container;
     this.onRestart = onRestart;
+    this.onWatchReplay = onWatchReplay;
     this.setupUI();
   }
 
@@ -23,22 +32,103 @@ export class EndScreen {
   }
 
   /**
-   * Show the end screen with winner and final scores
+   * Show the end screen - bonus award reveal (when any were handed out), then winner and final scores
    */
   show(gameState: GameStateType): void {
-    // Sort players by points
-    const sortedPlayers = [...gameState.players].sort((a, b) => b.points - a.points);
-    const winner = sortedPlayers[0];
+    if (gameState.bonusAwards.length > 0) {
+      this.revealBonusAwards(gameState);
+    } else {
+      this.showResults(gameState);
+    }
+  }
+
+  /**
+   * Reveal the bonus awards one at a time, starting from the leader before the awards
+   */
+  private async revealBonusAwards(gameState: GameStateType): Promise<void> {
+    const revealId = ++this.revealId;
+    const wait = () => new Promise(resolve => setTimeout(resolve, AWARD_REVEAL_DELAY));
 
     this.container.innerHTML = `
       <div class="end-screen-content">
+        <div class="awards-section">
+          <h1 class="end-title">🏅 الجوائز الإضافية 🏅</h1>
+          <div class="awards-leader">المتصدر قبل الجوائز: ${this.getLeaderBeforeAwards(gameState)}</div>
+          <div class="awards-list"></div>
+        </div>
+      </div>
+    `;
+    this.container.style.display = 'flex';
+    const list = this.container.querySelector('.awards-list')!;
+
+    for (const result of gameState.bonusAwards) {
+      await wait();
+      if (revealId !== this.revealId) return;
+
+      const definition = BONUS_AWARDS[result.award];
+      const winners = result.winners.map(index => {
+        const player = gameState.players[index];
+        return `<span class="award-winner" style="color: ${player.color}">${player.characterName || player.name}</span>`;
+      }).join(' ، ');
+      list.insertAdjacentHTML('beforeend', `
+        <div class="award-card">
+          <span class="award-icon">${definition.icon}</span>
+          <div class="award-details">
+            <div class="award-name">${definition.name}</div>
+            <div class="award-description">${definition.description} (${result.value})</div>
+          </div>
+          <div class="award-winners">${result.winners.length > 0 ? `${winners} +${result.stars}⭐` : 'لا أحد'}</div>
+        </div>
+      `);
+    }
+
+    await wait();
+    if (revealId !== this.revealId) return;
+    this.showResults(gameState);
+  }
+
+  /**
+   * Name of the player (or team) who led before the bonus awards were added
+   */
+  private getLeaderBeforeAwards(gameState: GameStateType): string {
+    const awardedStars = (playerIndex: number): number => gameState.bonusAwards.reduce(
+      (sum, result) => sum + (result.winners.includes(playerIndex) ? result.stars : 0), 0);
+
+    if (gameState.teams.length > 0) {
+      const teams = gameState.teams.map(team => ({
+        ...team,
+        stars: team.stars - team.members.reduce((sum, index) => sum + awardedStars(index), 0)
+      }));
+      return rankTeams(teams)[0].name;
+    }
+
+    const players = gameState.players.map((player, index) => ({ ...player, stars: player.stars - awardedStars(index) }));
+    const leader = rankPlayers(players)[0];
+    return leader.characterName || leader.name;
+  }
+
+  /**
+   * Winner and final scores
+   */
+  private showResults(gameState: GameStateType): void {
+    if (gameState.teams.length > 0) {
+      this.showTeamResults(gameState);
+      return;
+    }
+
+    // Sort players by stars, then coins
+    const sortedPlayers = rankPlayers(gameState.players);
+    const winner = sortedPlayers[0];
+    const totalLaps = gameState.players.reduce((sum, player) => sum + player.laps, 0);
+
+    this.render(`
         <div class="winner-section">
           <h1 class="end-title">🎉 انتهت اللعبة! 🎉</h1>
           <div class="winner-card">
             <div class="winner-badge">🏆 الفائز 🏆</div>
             ${winner.portrait ? `<img class="winner-portrait" src="${winner.portrait}" alt="${winner.characterName}" />` : ''}
             <div class="winner-name" style="color: ${winner.color}">${winner.characterName || winner.name}</div>
-            <div class="winner-points">${winner.points} نقطة</div>
+            <div class="winner-points">${winner.stars} ⭐ · ${winner.coins} 🪙 · ${winner.laps} 🏁</div>
           </div>
         </div>
         
@@ -50,13 +140,94 @@ export class EndScreen {
                 <span class="score-rank">${index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : (index + 1)}</span>
                 ${player.portrait ? `<img class="score-portrait" src="${player.portrait}" alt="${player.characterName}" />` : ''}
                 <span class="score-name" style="color: ${player.color}">${player.characterName || player.name}</span>
-                <span class="score-points">${player.points}</span>
+                <span class="score-points">${player.stars}⭐ ${player.coins}🪙</span>
+                <span class="score-laps">${player.laps} 🏁</span>
               </div>
+              ${this.renderBreakdown(gameState, [gameState.players.indexOf(player)])}
             `).join('')}
           </div>
+          <div class="laps-total">مجموع اللفات: ${totalLaps} 🏁</div>
         </div>
+    `);
+  }
 
-        <button class="restart-button" id="restart-btn">العب مرة أخرى 🔄</button>
+  /**
+   * Team mode - the winning team and each team's shared pool with its members
+   */
+  private showTeamResults(gameState: GameStateType): void {
+    const sortedTeams = rankTeams(gameState.teams);
+    const winner = sortedTeams[0];
+    const winnerMembers = winner.members.map(index => gameState.players[index]);
+
+    this.render(`
+        <div class="winner-section">
+          <h1 class="end-title">🎉 انتهت اللعبة! 🎉</h1>
+          <div class="winner-card">
+            <div class="winner-badge">🏆 الفريق الفائز 🏆</div>
+            <div class="winner-team-portraits">
+              ${winnerMembers.map(player => player.portrait ? `<img class="winner-portrait" src="${player.portrait}" alt="${player.characterName}" />` : '').join('')}
+            </div>
+            <div class="winner-name" style="color: ${winner.color}">${winner.name}</div>
+            <div class="winner-points">${winner.stars} ⭐ · ${winner.coins} 🪙</div>
+          </div>
+        </div>
+
+        <div class="final-scores">
+          <h2>نتائج الفرق</h2>
+          <div class="scores-list">
+            ${sortedTeams.map((team, index) => `
+              <div class="score-row team-score-row" style="border-left-color: ${team.color}">
+                <span class="score-rank">${index === 0 ? '🥇' : '🥈'}</span>
+                <span class="score-name" style="color: ${team.color}">${team.name}</span>
+                <span class="score-points">${team.stars}⭐ ${team.coins}🪙</span>
+              </div>
+              ${this.renderBreakdown(gameState, team.members)}
+              ${team.members.map(memberIndex => {
+                const player = gameState.players[memberIndex];
+                return `
+                  <div class="score-row team-member-row" style="border-left-color: ${team.color}">
+                    ${player.portrait ? `<img class="score-portrait" src="${player.portrait}" alt="${player.characterName}" />` : ''}
+                    <span class="score-name" style="color: ${player.color}">${player.characterName || player.name}</span>
+                    <span class="score-laps">${player.laps} 🏁</span>
+                  </div>
+                `;
+              }).join('')}
+            `).join('')}
+          </div>
+        </div>
+    `);
+  }
+
+  /**
+   * Ledger breakdown for a player (or a team's members) - net coins / stars per reason
+   */
+  private renderBreakdown(gameState: GameStateType, playerIndices: number[]): string {
+    const breakdown = getLedgerBreakdown(gameState.ledger, playerIndices).filter(total => total.coins !== 0 || total.stars !== 0);
+    if (breakdown.length === 0) return '';
+
+    const format = (value: number, icon: string): string => value !== 0 ? `${value > 0 ? '+' : ''}${value}${icon}` : '';
+    return `
+      <div class="score-breakdown">
+        ${breakdown.map(({ reason, coins, stars }) => `
+          <span class="breakdown-chip" title="${LEDGER_REASONS[reason].label}">
+            ${LEDGER_REASONS[reason].icon} ${[format(stars, '⭐'), format(coins, '🪙')].filter(Boolean).join(' ')}
+          </span>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Fill the end screen with the results plus the replay / restart buttons and show it
+   */
+  private render(resultsHtml: string): void {
+    this.container.innerHTML = `
+      <div class="end-screen-content">
+        ${resultsHtml}
+        <div class="end-actions">
+          ${this.onWatchReplay ? '<button class="restart-button replay-button" id="replay-btn">مشاهدة الإعادة 🎬</button>' : ''}
+          <button class="restart-button" id="restart-btn">العب مرة أخرى 🔄</button>
+        </div>
       </div>
     `;
 
@@ -68,6 +239,13 @@ export class EndScreen {
       });
     }
 
+    const replayBtn = this.container.querySelector('#replay-btn');
+    if (replayBtn) {
+      replayBtn.addEventListener('click', () => {
+        this.onWatchReplay?.();
+      });
+    }
+
     this.container.style.display = 'flex';
   }
 
@@ -75,6 +253,7 @@ export class EndScreen {
    * Hide the end screen
    */
   hide(): void {
+    this.revealId++;
     this.container.style.display = 'none';
   }
 
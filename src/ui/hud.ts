@@ -1,8 +1,34 @@
-import { GameState as GameStateType } from '../core/game-state';
+import { GameState as GameStateType, rankPlayers, rankTeams, getPlayerTeam } from '../core/game-state';
+import { ItemType, ItemUseOptions, ITEMS } from '../core/items';
+import { DICE_MIN, DICE_MAX } from '../core/constants';
+import { BoardEventType, BOARD_EVENTS } from '../core/board-events';
+import type { PassTileAction } from '../core/match-log';
+import { PassHookType } from '../core/pass-hooks';
+import { BonusAwardResult, BONUS_AWARDS } from '../core/bonus-awards';
+import { FINAL_TURNS_COUNT, FINAL_TURNS_EFFECTS, FinalTurnsEffect } from '../core/final-turns';
+import { LEDGER_REASONS } from '../core/points-ledger';
+import { GameEventBus } from '../core/game-events';
+import { TurnState, canPerform } from '../core/turn-states';
+import { MinigameResults } from '../core/minigame-results';
+
+const PASS_MESSAGES: Record<PassHookType, string> = {
+  start: 'lap',
+  star: 'star',
+  bank: 'bank_fee',
+  toll: 'toll_paid'
+};
+
+const PASS_MESSAGE_DURATION = 1500;
+
+/** How long (ms) the final-turns banner stays up */
+const FINAL_TURNS_BANNER_DURATION = 4500;
+
+/** Ledger entries shown in the live feed (newest first) */
+const LEDGER_FEED_LENGTH = 5;
 
 /**
  * HUD (Heads-Up Display) - Main game UI overlay
- * Displays: Roll dice button, Turn counter, Current points, Tile landed message
+ * Displays: Roll dice button, Turn counter, Current stars / coins, Item bar, Tile landed message
  */
 
 export class HUD {
@@ -14,13 +40,24 @@ export class HUD {
   private tileMessage!: HTMLElement;
   private dicePopup!: HTMLElement;
   private leaderboard!: HTMLElement;
+  private itemBar!: HTMLElement;
+  private turnOrderBar!: HTMLElement;
+  private finalTurnsBanner!: HTMLElement;
+  private ledgerFeed!: HTMLElement;
   private onRollDice: () => void;
   private onTestTrivia?: () => void;
-
-  constructor(container: HTMLElement, onRollDice: () => void, onTestTrivia?: () => void) {
+  private onUseItem?: (item: ItemType, options?: ItemUseOptions) => void;
+
+  constructor(
+    container: HTMLElement,
+    onRollDice: () => void,
+    onTestTrivia?: () => void,
+    onUseItem?: (item: ItemType, options?: ItemUseOptions) => void
+  ) {
     this.container = container;
     this.onRollDice = onRollDice;
     this.onTestTrivia = onTestTrivia;
+    this.onUseItem = onUseItem;
     this.setupUI();
   }
 
@@ -73,7 +110,7 @@ export class HUD {
 
     this.pointsDisplay = document.createElement('div');
     this.pointsDisplay.className = 'player-score';
-    this.pointsDisplay.textContent = '0 نقاط'; // Points
+    this.pointsDisplay.textContent = '0 ⭐ · 0 🪙 · 0 🏁'; // Stars · coins · laps
 
     details.appendChild(nameDisplay);
     details.appendChild(this.pointsDisplay);
@@ -113,6 +150,22 @@ export class HUD {
 
     this.container.appendChild(rollContainer);
 
+    // Item bar (bottom center) - current player's inventory, usable in ITEM_PHASE
+    this.itemBar = document.createElement('div');
+    this.itemBar.className = 'item-bar';
+    this.container.appendChild(this.itemBar);
+
+    // Turn order strip (top center) - roll-off results, then who moves when
+    this.turnOrderBar = document.createElement('div');
+    this.turnOrderBar.className = 'turn-order-bar';
+    this.container.appendChild(this.turnOrderBar);
+
+    // Final-turns banner (full width, shown when the last turns begin)
+    this.finalTurnsBanner = document.createElement('div');
+    this.finalTurnsBanner.className = 'final-turns-banner';
+    this.finalTurnsBanner.style.display = 'none';
+    this.container.appendChild(this.finalTurnsBanner);
+
     // Tile message (shows when landing on a tile)
     this.tileMessage = document.createElement('div');
     this.tileMessage.className = 'tile-message';
@@ -136,6 +189,18 @@ export class HUD {
       <div class="leaderboard-list"></div>
     `;
     document.body.appendChild(this.leaderboard);
+
+    // Live points feed (under the leaderboard) - latest coin / star changes from the ledger
+    this.ledgerFeed = document.createElement('div');
+    this.ledgerFeed.className = 'ledger-feed';
+    this.leaderboard.appendChild(this.ledgerFeed);
+  }
+
+  /**
+   * Follow the match's events - the points feed updates as soon as a score changes
+   */
+  subscribe(events: GameEventBus, gameState: GameStateType): void {
+    events.on('pointsChanged', () => this.updateLedgerFeed(gameState));
   }
 
   /**
@@ -143,20 +208,25 @@ export class HUD {
    */
   update(gameState: GameStateType): void {
     // Update turn counter
-    this.turnCounter.textContent = `${gameState.turn} / 12`;
+    const isRollOff = gameState.currentState === 'TURN_ORDER';
+    this.turnCounter.textContent = isRollOff ? 'ترتيب الأدوار' : `${gameState.turn} / ${gameState.rules.maxTurns}`;
+    this.turnCounter.classList.toggle('final-turns', gameState.finalTurns !== null);
 
     // Update Player Card (Current Player)
     const currentPlayer = gameState.players[gameState.currentPlayerIndex];
     if (currentPlayer) {
-      // Update Name
+      const team = getPlayerTeam(gameState, currentPlayer);
+
+      // Update Name (with the team in team mode)
       const nameEl = document.getElementById('hud-player-name');
       if (nameEl) {
-        nameEl.textContent = currentPlayer.characterName || currentPlayer.name;
+        const name = currentPlayer.characterName || currentPlayer.name;
+        nameEl.textContent = team ? `${name} · ${team.name}` : name;
         nameEl.style.color = currentPlayer.color; // Tint name with player color
       }
 
-      // Update Points
-      this.pointsDisplay.textContent = `${currentPlayer.points} 💎`; // Using gem icon for points
+      // Update Stars / Coins / Laps
+      this.pointsDisplay.textContent = `${currentPlayer.stars} ⭐ · ${currentPlayer.coins} 🪙 · ${currentPlayer.laps} 🏁`;
 
       // Update Avatar
       const avatarEl = document.getElementById('hud-player-avatar');
@@ -171,15 +241,16 @@ export class HUD {
         }
       }
 
-      // Border color for card
+      // Border color for card (team color in team mode)
       const card = this.container.querySelector('.player-card') as HTMLElement;
       if (card) {
-        card.style.borderLeftColor = currentPlayer.color;
+        card.style.borderLeftColor = team ? team.color : currentPlayer.color;
       }
     }
 
-    // Update roll button state
-    const canRoll = gameState.currentState === 'TURN_START' || gameState.currentState === 'ROLL_DICE';
+    // Update roll button state (rolling in ITEM_PHASE skips using an item, CPU seats roll on their own)
+    const isCpu = !!currentPlayer?.cpu;
+    const canRoll = !isCpu && (isRollOff || canPerform(gameState.currentState as TurnState, 'rollDice'));
     this.rollButton.disabled = !canRoll;
     this.rollButton.style.opacity = canRoll ? '1' : '0.6';
     this.rollButton.style.cursor = canRoll ? 'pointer' : 'not-allowed';
@@ -189,7 +260,9 @@ export class HUD {
     const rollText = this.rollButton.querySelector('.roll-text');
     if (rollText) {
       if (canRoll) {
-        rollText.textContent = 'ارمِ النرد';
+        rollText.textContent = isRollOff ? 'ارمِ لترتيب الأدوار' : 'ارمِ النرد';
+      } else if (isCpu) {
+        rollText.textContent = '🤖 دور الكمبيوتر';
       } else {
         rollText.textContent = '...';
       }
@@ -197,6 +270,84 @@ export class HUD {
 
     // Update leaderboard
     this.updateLeaderboard(gameState);
+
+    this.updateLedgerFeed(gameState);
+
+    this.updateTurnOrder(gameState);
+
+    this.updateItemBar(gameState);
+  }
+
+  /**
+   * Turn order strip - during the roll-off each player's rolls (seat order),
+   * afterwards the players in the order they move
+   */
+  private updateTurnOrder(gameState: GameStateType): void {
+    const isRollOff = gameState.currentState === 'TURN_ORDER';
+    const order = isRollOff ? gameState.players.map((_, index) => index) : gameState.turnOrder;
+
+    this.turnOrderBar.innerHTML = order.map((playerIndex, position) => {
+      const player = gameState.players[playerIndex];
+      const isCurrent = playerIndex === gameState.currentPlayerIndex;
+      const rolls = gameState.orderRolls[playerIndex] ?? [];
+      const label = isRollOff
+        ? (rolls.length > 0 ? `🎲 ${rolls.join(' → ')}` : '🎲 ...')
+        : `${position + 1}`;
+      const avatar = player.portrait
+        ? `<img class="to-portrait" src="${player.portrait}" alt="${player.characterName}" />`
+        : `<span class="to-portrait lb-initial" style="background: ${player.color}">${player.characterName?.charAt(0) || '?'}</span>`;
+      return `
+        <div class="to-slot ${isCurrent ? 'active' : ''}" style="border-color: ${player.color}">
+          ${avatar}
+          <span class="to-label">${label}</span>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Show the current player's items - clickable only while they can be used
+   */
+  private updateItemBar(gameState: GameStateType): void {
+    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+    const items = currentPlayer ? currentPlayer.items : [];
+    const canUse = gameState.currentState === 'ITEM_PHASE' && !!this.onUseItem && !currentPlayer?.cpu;
+
+    this.itemBar.innerHTML = '';
+    this.itemBar.style.display = items.length > 0 ? 'flex' : 'none';
+
+    items.forEach(item => {
+      const definition = ITEMS[item];
+      const button = document.createElement('button');
+      button.className = 'item-slot';
+      button.disabled = !canUse;
+      button.title = `${definition.name} - ${definition.description}`;
+      button.innerHTML = `<span class="item-icon">${definition.icon}</span><span class="item-name">${definition.name}</span>`;
+      button.addEventListener('click', () => {
+        if (item === ItemType.GOLDEN_DICE) {
+          this.showDiceValuePicker();
+        } else {
+          this.onUseItem?.(item);
+        }
+      });
+      this.itemBar.appendChild(button);
+    });
+  }
+
+  /**
+   * Golden dice - let the player choose the result
+   */
+  private showDiceValuePicker(): void {
+    this.itemBar.innerHTML = '';
+    for (let value = DICE_MIN; value <= DICE_MAX; value++) {
+      const button = document.createElement('button');
+      button.className = 'item-slot dice-value';
+      button.textContent = value.toString();
+      button.addEventListener('click', () => {
+        this.onUseItem?.(ItemType.GOLDEN_DICE, { diceValue: value });
+      });
+      this.itemBar.appendChild(button);
+    }
   }
 
   /**
@@ -206,8 +357,13 @@ export class HUD {
     const leaderboardList = this.leaderboard.querySelector('.leaderboard-list');
     if (!leaderboardList) return;
 
-    // Sort players by points (highest first)
-    const sortedPlayers = [...gameState.players].sort((a, b) => b.points - a.points);
+    if (gameState.teams.length > 0) {
+      leaderboardList.innerHTML = this.renderTeamLeaderboard(gameState);
+      return;
+    }
+
+    // Sort players by stars, then coins (highest first)
+    const sortedPlayers = rankPlayers(gameState.players);
 
     let html = '';
     sortedPlayers.forEach((player, index) => {
@@ -228,8 +384,8 @@ export class HUD {
         <div class="lb-row ${isCurrentPlayer ? 'active' : ''}" style="${isCurrentPlayer ? `border-right: 3px solid ${player.color}; background: rgba(255,255,255,0.1);` : ''}">
           <div class="lb-rank">${rankBadge}</div>
           <div class="lb-avatar">${portraitHtml}</div>
-          <div class="lb-name">${player.characterName || player.name}</div>
-          <div class="lb-score">${player.points}</div>
+          <div class="lb-name">${player.characterName || player.name}${player.cpu ? ' 🤖' : ''}</div>
+          <div class="lb-score">${player.stars}⭐ ${player.coins}🪙 ${player.laps}🏁</div>
         </div>
       `;
     });
@@ -237,6 +393,57 @@ export class HUD {
     leaderboardList.innerHTML = html;
   }
 
+  /**
+   * Live feed of the latest ledger entries (who gained / lost what and why)
+   */
+  private updateLedgerFeed(gameState: GameStateType): void {
+    const entries = gameState.ledger.slice(-LEDGER_FEED_LENGTH).reverse();
+    this.ledgerFeed.style.display = entries.length > 0 ? 'flex' : 'none';
+    this.ledgerFeed.innerHTML = entries.map(entry => {
+      const player = gameState.players[entry.playerIndex];
+      const reason = LEDGER_REASONS[entry.reason];
+      const amount = `${entry.delta > 0 ? '+' : ''}${entry.delta}${entry.currency === 'stars' ? '⭐' : '🪙'}`;
+      return `
+        <div class="ledger-row" title="${reason.label} · ${entry.turn}">
+          <span class="ledger-icon">${reason.icon}</span>
+          <span class="ledger-name" style="color: ${player.color}">${player.characterName || player.name}</span>
+          <span class="ledger-delta ${entry.delta > 0 ? 'gain' : 'loss'}">${amount}</span>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Team mode - one row per team with the shared pool, followed by its members
+   */
+  private renderTeamLeaderboard(gameState: GameStateType): string {
+    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+
+    return rankTeams(gameState.teams).map((team, index) => `
+      <div class="lb-team" style="--team-color: ${team.color}">
+        <div class="lb-row lb-team-row">
+          <div class="lb-rank">${index === 0 ? '🥇' : '🥈'}</div>
+          <div class="lb-name lb-team-name">${team.name}</div>
+          <div class="lb-score">${team.stars}⭐ ${team.coins}🪙</div>
+        </div>
+        ${team.members.map(memberIndex => {
+          const player = gameState.players[memberIndex];
+          const isCurrentPlayer = player.id === currentPlayer?.id;
+          const portraitHtml = player.portrait
+            ? `<img class="lb-portrait-img" src="${player.portrait}" alt="${player.characterName}" />`
+            : `<span class="lb-initial" style="background: ${player.color}">${player.characterName?.charAt(0) || '?'}</span>`;
+          return `
+            <div class="lb-row lb-member ${isCurrentPlayer ? 'active' : ''}">
+              <div class="lb-avatar">${portraitHtml}</div>
+              <div class="lb-name">${player.characterName || player.name}${player.cpu ? ' 🤖' : ''}</div>
+              <div class="lb-score">${player.laps}🏁</div>
+            </div>
+          `;
+        }).join('')}
+      </div>
+    `).join('');
+  }
+
   /**
    * Show dice roll result with animation
    */
@@ -268,32 +475,203 @@ export class HUD {
 
     switch (tileType) {
       case 'minigame_win':
-        message = `🏆 إجابة صحيحة! +${points} نقاط`;
+        message = `🏆 إجابة صحيحة! +${points} عملات`;
         break;
       case 'minigame_lose':
-        message = `❌ إجابة خاطئة! +0 نقاط`;
+        message = `❌ إجابة خاطئة! +0 عملات`;
         break;
       case 'green':
-        message = `🟢 مربع أخضر! ${sign}${points} نقاط`;
+        message = `🟢 مربع أخضر! ${sign}${points} عملات`;
         break;
       case 'red':
-        message = `🔴 مربع أحمر! ${sign}${points} نقاط`;
+        message = `🔴 مربع أحمر! ${sign}${points} عملات`;
         break;
       case 'yellow':
-        message = `🟡 مربع أصفر! ${sign}${points} نقاط`;
+        message = `🟡 مربع أصفر! ${sign}${points} عملات`;
         break;
       case 'blue':
         message = `🔵 مربع أزرق! اللعبة الصغيرة تبدأ...`;
         break;
+      case 'star':
+        message = `⭐ اشتريت نجمة! -${Math.abs(points)} عملات`;
+        break;
+      case 'shop':
+        message = `🛒 متجر الأغراض! اختر غرضاً...`;
+        break;
+      case 'item_bought':
+        message = `🛒 اشتريت غرضاً! -${Math.abs(points)} عملات`;
+        break;
+      case 'shield':
+        message = `🛡️ الدرع صد المربع الأحمر!`;
+        break;
+      case 'steal':
+        message = `🦝 سرقت ${points} عملات!`;
+        break;
+      case 'junction':
+        message = `🔀 مفترق طرق! اختر الاتجاه...`;
+        break;
+      case 'warp':
+        message = `🌀 بوابة! انتقلت إلى البوابة الأخرى`;
+        break;
+      case 'swap':
+        message = `🔁 تبادل الأماكن! اختر منافساً...`;
+        break;
+      case 'swapped':
+        message = `🔁 تبادلت مكانك مع منافسك!`;
+        break;
+      case 'bank':
+        message = `🏦 البنك! +${points} عملات`;
+        break;
+      case 'bank_fee':
+        message = `🏦 مررت بالبنك! -${Math.abs(points)} عملات`;
+        break;
+      case 'toll':
+        message = `🚧 امتلكت مربع الرسوم! المارون يدفعون لك`;
+        break;
+      case 'toll_paid':
+        message = `🚧 رسوم عبور! -${Math.abs(points)} عملات`;
+        break;
+      case 'lap':
+        message = `🏁 أكملت لفة! +${points} عملات`;
+        break;
+      case 'duel':
+        message = `🗡 مبارزة! اختر منافساً...`;
+        break;
     }
 
     let typeClass = 'neutral';
-    if (tileType === 'green' || tileType === 'minigame_win') typeClass = 'positive';
-    if (tileType === 'red' || tileType === 'minigame_lose') typeClass = 'negative';
+    if (tileType === 'green' || tileType === 'minigame_win' || tileType === 'shield' || tileType === 'steal' ||
+      tileType === 'bank' || tileType === 'lap') typeClass = 'positive';
+    if (tileType === 'red' || tileType === 'minigame_lose' || tileType === 'bank_fee' || tileType === 'toll_paid') typeClass = 'negative';
     if (tileType === 'yellow') typeClass = 'yellow';
-    if (tileType === 'blue') typeClass = 'special';
+    if (tileType === 'blue' || tileType === 'star' || tileType === 'shop' || tileType === 'item_bought' || tileType === 'junction' ||
+      tileType === 'warp' || tileType === 'swap' || tileType === 'swapped' || tileType === 'duel' || tileType === 'toll') typeClass = 'special';
+
+    this.displayTileMessage(message.split(' ')[0], message.substring(2), typeClass);
+  }
+
+  /**
+   * Show the pass-through effects of one step of a move, one after the other
+   * Resolves once they have been shown (the pawn waits on the tile meanwhile)
+   */
+  async showPassEffects(effects: PassTileAction[]): Promise<void> {
+    for (const effect of effects) {
+      this.showTileMessage(PASS_MESSAGES[effect.hook], effect.coins);
+      await new Promise(resolve => setTimeout(resolve, PASS_MESSAGE_DURATION));
+    }
+  }
+
+  /**
+   * Show the board event triggered by an event tile
+   */
+  showEventMessage(event: BoardEventType): void {
+    const definition = BOARD_EVENTS[event];
+    this.displayTileMessage(definition.icon, ` ${definition.name}! ${definition.description}`, 'special');
+  }
+
+  /**
+   * Final-turns banner - current standings plus the effect for the rest of the match
+   * Resolves once the banner is hidden again
+   */
+  async showFinalTurnsBanner(gameState: GameStateType): Promise<void> {
+    const finalTurns = gameState.finalTurns;
+    if (!finalTurns) return;
+    const definition = FINAL_TURNS_EFFECTS[finalTurns.effect];
+
+    const standings = gameState.teams.length > 0
+      ? rankTeams(gameState.teams).map(team => ({ name: team.name, color: team.color, stars: team.stars, coins: team.coins }))
+      : rankPlayers(gameState.players).map(player => ({
+        name: player.characterName || player.name, color: player.color, stars: player.stars, coins: player.coins
+      }));
+
+    let effectText = definition.description;
+    if (finalTurns.effect === FinalTurnsEffect.LAST_PLACE_BONUS && finalTurns.targetIndex !== undefined) {
+      const target = gameState.players[finalTurns.targetIndex];
+      effectText = `${target.characterName || target.name} يحصل على ${finalTurns.amount} عملات`;
+    }
+
+    this.finalTurnsBanner.innerHTML = `
+      <div class="ftb-title">🔥 آخر ${FINAL_TURNS_COUNT} أدوار! 🔥</div>
+      <div class="ftb-standings">
+        ${standings.map((entry, index) => `
+          <span class="ftb-entry" style="border-color: ${entry.color}">${index + 1}. ${entry.name} · ${entry.stars}⭐ ${entry.coins}🪙</span>
+        `).join('')}
+      </div>
+      <div class="ftb-effect">${definition.icon} ${definition.name}: ${effectText}</div>
+    `;
+    this.finalTurnsBanner.style.display = 'flex';
+    void this.finalTurnsBanner.offsetWidth;
+    this.finalTurnsBanner.classList.add('show');
+
+    await new Promise(resolve => setTimeout(resolve, FINAL_TURNS_BANNER_DURATION));
+    this.finalTurnsBanner.classList.remove('show');
+    await new Promise(resolve => setTimeout(resolve, 500));
+    this.finalTurnsBanner.style.display = 'none';
+  }
+
+  /**
+   * Announce an end-of-game bonus award and who won it
+   */
+  showBonusAward(gameState: GameStateType, result: BonusAwardResult): void {
+    const definition = BONUS_AWARDS[result.award];
+    const winners = result.winners.map(index => {
+      const player = gameState.players[index];
+      return player.characterName || player.name;
+    });
+    const text = winners.length > 0 ? `${winners.join(' ، ')} +${result.stars}⭐` : 'لا أحد';
+    this.displayTileMessage(definition.icon, ` ${definition.name}: ${text}`, 'special');
+  }
+
+  /**
+   * Announce a minigame's outcome - win / lose for a solo game, otherwise every placement with its payout
+   * @param payouts - Coins paid, same order as results.placements
+   */
+  showMinigameResults(gameState: GameStateType, results: MinigameResults, payouts: number[]): void {
+    if (results.format === 'solo') {
+      const won = results.placements[0].rank === 1;
+      this.showTileMessage(won ? 'minigame_win' : 'minigame_lose', payouts[0]);
+      return;
+    }
+    const placements = results.placements.map((placement, i) => {
+      const player = gameState.players[placement.playerIndex];
+      return `${placement.rank}. ${player.characterName || player.name} +${payouts[i]}`;
+    });
+    this.displayTileMessage('🎮', ` ${placements.join(' ، ')}`, 'special');
+  }
+
+  /**
+   * Announce who won a duel and the coins they took (a draw moves none)
+   */
+  showDuelResult(gameState: GameStateType, results: MinigameResults, amount: number): void {
+    const [first, second] = results.placements;
+    if (first.rank === second.rank) {
+      this.displayTileMessage('🗡', ' تعادل في المبارزة! لا تنتقل أي عملات', 'neutral');
+      return;
+    }
+    const winner = gameState.players[first.playerIndex];
+    this.displayTileMessage('🗡', ` ${winner.characterName || winner.name} فاز بالمبارزة! +${amount} عملات`, 'positive');
+  }
+
+  /**
+   * Announce the end-of-round minigame everyone is about to play
+   */
+  showRoundMinigame(name: string): void {
+    this.displayTileMessage('🏆', ` تحدي الجولة: ${name}`, 'special');
+  }
+
+  /**
+   * Announce the turn order decided by the roll-off
+   */
+  showTurnOrder(gameState: GameStateType): void {
+    const names = gameState.turnOrder.map(index => {
+      const player = gameState.players[index];
+      return player.characterName || player.name;
+    });
+    this.displayTileMessage('🎲', ` ترتيب الأدوار: ${names.join(' ← ')}`, 'special');
+  }
 
-    this.tileMessage.innerHTML = `<span class="tm-icon">${message.split(' ')[0]}</span> <span class="tm-text">${message.substring(2)}</span>`;
+  private displayTileMessage(icon: string, text: string, typeClass: string): void {
+    this.tileMessage.innerHTML = `<span class="tm-icon">${icon}</span> <span class="tm-text">${text}</span>`;
     this.tileMessage.style.display = 'flex';
     // Force reflow
     void this.tileMessage.offsetWidth;
@@ -0,0 +1,249 @@
+import { InteractiveMinigame } from '../minigames/core/interactive-minigame';
+import { TapRaceMinigame, TAP_RACE_TARGET } from '../minigames/games/tap-race-minigame';
+import { ReactionMinigame } from '../minigames/games/reaction-minigame';
+import { MemoryMinigame, MEMORY_PADS } from '../minigames/games/memory-minigame';
+import { FallingPlatformsMinigame } from '../minigames/games/falling-platforms-minigame';
+import { isMinigame3D } from '../minigames/core/types';
+import { RNG } from '../core/rng';
+import type { Player, Team } from '../core/game-state';
+
+/**
+ * InteractiveMinigameUI - Overlay UI for the interactive blue-tile minigames (tap race, reaction light, memory sequence, falling platforms)
+ * Draws whichever game it is given and feeds clicks / taps into it
+ * 3D minigames draw themselves in MinigameScene and handle their own input - the overlay only shows the timer and status over them
+ * The pause button (or switching away from the tab) pauses the game's clock
+ * CPU players play on their own (clicks are ignored while a CPU is playing)
+ * Reports whether the game was won and its score (end-of-round minigames rank players by score)
+ */
+
+const MEMORY_PAD_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#facc15'];
+
+export class InteractiveMinigameUI {
+  private container: HTMLElement;
+  private onComplete: (success: boolean, score: number) => void;
+  private teamDisplay!: HTMLElement;
+  private titleDisplay!: HTMLElement;
+  private instructionsDisplay!: HTMLElement;
+  private timerDisplay!: HTMLElement;
+  private stage!: HTMLElement;
+  private statusDisplay!: HTMLElement;
+  private pauseButton!: HTMLButtonElement;
+  private game: InteractiveMinigame | null = null;
+
+  constructor(container: HTMLElement, onComplete: (success: boolean, score: number) => void) {
+    this.container = container;
+    this.onComplete = onComplete;
+    this.setupUI();
+
+    // Pause while the tab is hidden so the clock doesn't run out unseen
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden && this.game && !this.game.getIsFinished()) {
+        this.game.pause();
+      }
+    });
+  }
+
+  /**
+   * Setup the overlay
+   */
+  private setupUI(): void {
+    this.container.className = 'minigame-overlay interactive-minigame';
+    this.container.style.display = 'none';
+
+    // Team banner (team mode only)
+    this.teamDisplay = document.createElement('div');
+    this.teamDisplay.className = 'minigame-team';
+    this.teamDisplay.style.display = 'none';
+    this.container.appendChild(this.teamDisplay);
+
+    this.titleDisplay = document.createElement('div');
+    this.titleDisplay.className = 'minigame-category';
+    this.container.appendChild(this.titleDisplay);
+
+    this.instructionsDisplay = document.createElement('div');
+    this.instructionsDisplay.className = 'minigame-question';
+    this.container.appendChild(this.instructionsDisplay);
+
+    this.timerDisplay = document.createElement('div');
+    this.timerDisplay.className = 'minigame-timer';
+    this.container.appendChild(this.timerDisplay);
+
+    this.stage = document.createElement('div');
+    this.stage.className = 'interactive-stage';
+    this.container.appendChild(this.stage);
+
+    this.statusDisplay = document.createElement('div');
+    this.statusDisplay.className = 'interactive-status';
+    this.container.appendChild(this.statusDisplay);
+
+    this.pauseButton = document.createElement('button');
+    this.pauseButton.className = 'interactive-pause';
+    this.pauseButton.addEventListener('click', () => this.togglePause());
+    this.container.appendChild(this.pauseButton);
+  }
+
+  /**
+   * Start an interactive minigame
+   * @param rng - Random source for the round (the game's 'minigames' stream)
+   * @param cpuWins - Set when a CPU plays instead of a human: whether it wins
+   * @param playing - Who is playing (a team playing together, or whose go it is in a round minigame)
+   */
+  async start(game: InteractiveMinigame, rng: RNG, cpuWins?: boolean, playing?: { team?: Team; members: Player[] }): Promise<void> {
+    if (this.game && !this.game.getIsFinished()) {
+      this.game.end();
+    }
+    this.game = game;
+
+    await game.initialize(rng);
+    if (cpuWins !== undefined) game.playAsCpu(cpuWins);
+    game.onUpdate = () => this.render();
+    game.onTimeUpdate = (remaining) => {
+      this.timerDisplay.textContent = remaining.toString();
+    };
+    game.onComplete = (result) => this.end(result.success);
+
+    this.showPlaying(playing);
+    this.container.classList.toggle('scene-minigame', isMinigame3D(game));
+    this.titleDisplay.textContent = game.nameAr;
+    this.instructionsDisplay.textContent = game.instructionsAr;
+    this.timerDisplay.textContent = game.getTimeRemaining().toString();
+    this.buildStage(game);
+    this.container.style.display = 'flex';
+    game.start();
+  }
+
+  /**
+   * Show who is playing (hidden when it's just the current player)
+   */
+  private showPlaying(playing?: { team?: Team; members: Player[] }): void {
+    if (!playing) {
+      this.teamDisplay.style.display = 'none';
+      return;
+    }
+    const names = playing.members.map(player => player.characterName || player.name).join(' و ');
+    this.teamDisplay.textContent = playing.team ? `${playing.team.name} يلعب معاً: ${names}` : `دور ${names}`;
+    this.teamDisplay.style.borderColor = playing.team?.color ?? playing.members[0].color;
+    this.teamDisplay.style.display = 'block';
+  }
+
+  /**
+   * Create the game's controls
+   */
+  private buildStage(game: InteractiveMinigame): void {
+    this.stage.innerHTML = '';
+
+    if (game instanceof TapRaceMinigame) {
+      this.stage.appendChild(this.createControl('interactive-tap', 'انقر!', () => game.tap()));
+    } else if (game instanceof ReactionMinigame) {
+      this.stage.appendChild(this.createControl('interactive-light', '', () => game.press()));
+    } else if (game instanceof MemoryMinigame) {
+      const pads = document.createElement('div');
+      pads.className = 'memory-pads';
+      for (let pad = 0; pad < MEMORY_PADS; pad++) {
+        const button = this.createControl('memory-pad', '', () => game.choose(pad));
+        button.style.background = MEMORY_PAD_COLORS[pad];
+        pads.appendChild(button);
+      }
+      this.stage.appendChild(pads);
+    }
+  }
+
+  /**
+   * Button that feeds clicks / taps into the game (ignored while a CPU plays)
+   */
+  private createControl(className: string, label: string, onPress: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = className;
+    button.textContent = label;
+    const press = () => {
+      if (this.game && !this.game.isCpuPlaying()) onPress();
+    };
+    button.addEventListener('click', press);
+    button.addEventListener('touchstart', (e) => {
+      e.preventDefault();
+      press();
+    }, { passive: false });
+    return button;
+  }
+
+  /**
+   * Redraw the current game state
+   */
+  private render(): void {
+    const game = this.game;
+    if (!game) return;
+
+    const paused = game.getIsPaused();
+    this.stage.classList.toggle('paused', paused);
+    this.pauseButton.textContent = paused ? '▶ استئناف' : '⏸ إيقاف مؤقت';
+    this.pauseButton.style.display = game.getIsFinished() ? 'none' : 'block';
+    if (game.getIsFinished()) return;
+    if (paused) {
+      this.statusDisplay.textContent = 'اللعبة متوقفة مؤقتاً';
+      return;
+    }
+
+    if (game instanceof TapRaceMinigame) {
+      this.statusDisplay.textContent = `${game.getTaps()} / ${TAP_RACE_TARGET}`;
+    } else if (game instanceof ReactionMinigame) {
+      const lit = game.isLightOn();
+      this.stage.querySelector('.interactive-light')?.classList.toggle('lit', lit);
+      this.statusDisplay.textContent = lit ? 'الآن!' : 'انتظر...';
+    } else if (game instanceof FallingPlatformsMinigame) {
+      this.statusDisplay.textContent = `منصات متبقية: ${game.getPlatformsLeft()}`;
+    } else if (game instanceof MemoryMinigame) {
+      const lit = game.getLitPad();
+      this.stage.querySelectorAll('.memory-pad').forEach((pad, index) => {
+        pad.classList.toggle('lit', index === lit);
+      });
+      const round = `الجولة ${game.getRound()} / ${game.getRoundCount()}`;
+      this.statusDisplay.textContent = game.getPhase() === 'showing'
+        ? `${round} - راقب الأضواء`
+        : `${round} - دورك: ${game.getProgress()} / ${game.getRoundLength()}`;
+    }
+  }
+
+  private togglePause(): void {
+    if (!this.game || this.game.getIsFinished()) return;
+    if (this.game.getIsPaused()) {
+      this.game.resume();
+    } else {
+      this.game.pause();
+    }
+  }
+
+  /**
+   * Show the result, then report it
+   */
+  private end(success: boolean): void {
+    const game = this.game;
+    const score = game?.getScore() ?? 0;
+    let detail = '';
+    if (game instanceof ReactionMinigame) {
+      const reaction = game.getReactionTime();
+      if (game.isFalseStart()) detail = ' (ضغطت مبكراً)';
+      else if (reaction !== null) detail = ` (${Math.round(reaction)} ملي ثانية)`;
+    } else if (game instanceof FallingPlatformsMinigame) {
+      detail = game.hasFallen() ? ' (سقطت!)' : ' (نجوت!)';
+    }
+    this.statusDisplay.textContent = (success ? 'فوز!' : 'خسارة!') + detail;
+    this.timerDisplay.textContent = '0';
+
+    // Complete after brief delay
+    setTimeout(() => {
+      this.hide();
+      this.onComplete(success, score);
+    }, 2000);
+  }
+
+  /**
+   * Hide the overlay
+   */
+  hide(): void {
+    // A 3D minigame tears its scene down when it ends
+    if (this.game && isMinigame3D(this.game)) this.game.end();
+    this.container.style.display = 'none';
+    this.stage.innerHTML = '';
+    this.game = null;
+  }
+}
@@ -1,12 +1,16 @@
 import { TRIVIA_TIME_PER_QUESTION } from '../core/constants';
 import { TriviaQuestion, getRandomTriviaQuestion, shuffleTriviaOptions } from '../core/trivia';
 import { RNG } from '../core/rng';
+import type { TriviaAnswer } from '../core/cpu-player';
+import type { Player, Team } from '../core/game-state';
 
 /**
  * MinigameUI - Overlay UI for trivia minigame
  * Shows a trivia question with 4 multiple choice options
  * Player has 15 seconds to answer
  * Correct answer = 10 points, wrong answer = 0 points
+ * CPU players answer on their own (clicks are ignored while a CPU is answering)
+ * In team mode the whole team answers blue-tile questions together (shown in a banner above the question)
  */
 
 export class MinigameUI {
@@ -16,17 +20,25 @@ export class MinigameUI {
   private timerDisplay: HTMLElement;
   private questionDisplay: HTMLElement;
   private categoryDisplay: HTMLElement;
+  private teamDisplay!: HTMLElement;
   private optionsContainer: HTMLElement;
   private selectedAnswer: number | null = null;
   private currentQuestion: TriviaQuestion | null = null;
   private startTime: number = 0;
   private isActive: boolean = false;
+  private isCpuAnswering: boolean = false;
   private rng: RNG;
+  private cpuRng: RNG;
 
-  constructor(container: HTMLElement, onComplete: (correct: boolean) => void, rng: RNG) {
+  /**
+   * @param rng - Picks and shuffles the questions ('questions' stream)
+   * @param cpuRng - Picks a CPU's wrong answer ('cpu' stream), so CPU answers never change the questions asked
+   */
+  constructor(container: HTMLElement, onComplete: (correct: boolean) => void, rng: RNG, cpuRng: RNG) {
     this.container = container;
     this.onComplete = onComplete;
     this.rng = rng;
+    this.cpuRng = cpuRng;
     this.setupUI();
   }
 
@@ -37,6 +49,12 @@ export class MinigameUI {
     this.container.className = 'minigame-overlay';
     this.container.style.display = 'none';
 
+    // Team banner (team mode only)
+    this.teamDisplay = document.createElement('div');
+    this.teamDisplay.className = 'minigame-team';
+    this.teamDisplay.style.display = 'none';
+    this.container.appendChild(this.teamDisplay);
+
     // Category display
     this.categoryDisplay = document.createElement('div');
     this.categoryDisplay.className = 'minigame-category';
@@ -70,10 +88,12 @@ export class MinigameUI {
       const button = document.createElement('button');
       button.className = 'minigame-option';
       button.textContent = `${String.fromCharCode(65 + index)}. ${option}`;
-      button.addEventListener('click', () => this.selectAnswer(index));
+      button.addEventListener('click', () => {
+        if (!this.isCpuAnswering) this.selectAnswer(index);
+      });
       button.addEventListener('touchstart', (e) => {
         e.preventDefault();
-        this.selectAnswer(index);
+        if (!this.isCpuAnswering) this.selectAnswer(index);
       }, { passive: false });
       this.optionsContainer.appendChild(button);
     });
@@ -115,10 +135,26 @@ export class MinigameUI {
     }, 1500);
   }
 
+  /**
+   * Show who is answering - a team together, or whose go it is in a duel (hidden when it's just the current player)
+   */
+  private showAnswering(answering?: { team?: Team; members: Player[] }): void {
+    if (!answering) {
+      this.teamDisplay.style.display = 'none';
+      return;
+    }
+    const names = answering.members.map(player => player.characterName || player.name).join(' و ');
+    this.teamDisplay.textContent = answering.team ? `${answering.team.name} يجيب معاً: ${names}` : `دور ${names}`;
+    this.teamDisplay.style.borderColor = answering.team?.color ?? answering.members[0].color;
+    this.teamDisplay.style.display = 'block';
+  }
+
   /**
    * Start the minigame with a random trivia question
+   * @param cpuAnswer - Set when a CPU player answers instead of a human
+   * @param answering - Who is answering (a team together, or whose go it is in a duel)
    */
-  start(): void {
+  start(cpuAnswer?: TriviaAnswer, answering?: { team?: Team; members: Player[] }): void {
     // Clear any stale timer from previous game
     if (this.timerInterval !== null) {
       clearInterval(this.timerInterval);
@@ -129,6 +165,8 @@ export class MinigameUI {
     this.selectedAnswer = null;
     this.startTime = Date.now();
     this.isActive = true;
+    this.isCpuAnswering = !!cpuAnswer;
+    this.showAnswering(answering);
 
     // Get random trivia question
     const question = getRandomTriviaQuestion(this.rng);
@@ -165,6 +203,16 @@ export class MinigameUI {
       }
     }, 100); // Update every 100ms
 
+    // CPU picks the right option, or a random wrong one, after its response time
+    if (cpuAnswer && cpuAnswer.delay < TRIVIA_TIME_PER_QUESTION) {
+      const question = this.currentQuestion;
+      const wrongOptions = question.options.map((_, index) => index).filter(index => index !== question.correctAnswer);
+      const choice = cpuAnswer.correct ? question.correctAnswer : this.cpuRng.pick(wrongOptions);
+      setTimeout(() => {
+        if (this.currentQuestion === question) this.selectAnswer(choice);
+      }, cpuAnswer.delay);
+    }
+
     // Safety timeout
     setTimeout(() => {
       if (this.isActive && this.selectedAnswer === null) {
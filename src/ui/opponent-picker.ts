@@ -0,0 +1,60 @@
+import { Player } from '../core/game-state';
+import { TileType, TILE_ICONS } from '../core/constants';
+
+/**
+ * OpponentPicker - shown on swap / duel tiles so the current player can pick an opponent
+ */
+
+export class OpponentPicker {
+  private container: HTMLElement;
+  private onPick: (playerIndex: number) => void;
+
+  constructor(container: HTMLElement, onPick: (playerIndex: number) => void) {
+    this.container = container;
+    this.onPick = onPick;
+    this.container.className = 'opponent-picker';
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * Show the opponents the current player can choose from
+   */
+  show(players: Player[], options: number[], tileType: TileType): void {
+    const title = tileType === TileType.SWAP ? 'مع من تريد تبادل المكان؟' : 'من تريد أن تبارز؟';
+
+    this.container.innerHTML = `
+      <div class="opponent-content" dir="rtl">
+        <h2 class="opponent-title">${TILE_ICONS[tileType] ?? ''} ${title}</h2>
+        <div class="opponent-options">
+          ${options.map(index => {
+            const player = players[index];
+            return `
+              <button class="opponent-option" data-index="${index}" style="border-color: ${player.color}">
+                <img class="opponent-portrait" src="${player.portrait}" alt="">
+                <span class="opponent-name">${player.name}</span>
+                <span class="opponent-stats">${player.stars} ⭐ · ${player.coins} 🪙</span>
+              </button>
+            `;
+          }).join('')}
+        </div>
+      </div>
+    `;
+
+    this.container.querySelectorAll('.opponent-option').forEach(button => {
+      button.addEventListener('click', (e) => {
+        const index = Number((e.currentTarget as HTMLElement).dataset.index);
+        this.hide();
+        this.onPick(index);
+      });
+    });
+
+    this.container.style.display = 'flex';
+  }
+
+  /**
+   * Hide the picker
+   */
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+}
@@ -0,0 +1,240 @@
+import { MatchLog, MatchReplayer, MatchAction, getPassEffects } from '../core/match-log';
+import { ItemType, ITEMS } from '../core/items';
+import { TileType } from '../core/constants';
+import { BoardScene } from '../babylon/board-scene';
+import { HUD } from './hud';
+import { minigameRegistry } from '../minigames/core/minigame-registry';
+
+/**
+ * ReplayViewer - plays a recorded match back on the board
+ * Drives BoardScene.rollDice3D / movePawn from the match log with play/pause/step controls
+ */
+
+export class ReplayViewer {
+  private container: HTMLElement;
+  private boardScene: BoardScene;
+  private hud: HUD;
+  private replayer: MatchReplayer;
+  private onClose: () => void;
+  private isPlaying: boolean = false;
+  private isStepping: boolean = false;
+  private isClosed: boolean = false;
+  private playButton!: HTMLButtonElement;
+  private stepButton!: HTMLButtonElement;
+  private progressLabel!: HTMLElement;
+
+  constructor(boardScene: BoardScene, hud: HUD, log: MatchLog, onClose: () => void) {
+    this.boardScene = boardScene;
+    this.hud = hud;
+    this.replayer = new MatchReplayer(log);
+    this.onClose = onClose;
+    this.container = document.createElement('div');
+    this.setupUI();
+    this.syncBoard();
+  }
+
+  /**
+   * Build the replay control bar
+   */
+  private setupUI(): void {
+    this.container.className = 'replay-controls';
+
+    const title = document.createElement('span');
+    title.className = 'replay-title';
+    title.textContent = '🎬 إعادة المباراة';
+    this.container.appendChild(title);
+
+    this.playButton = document.createElement('button');
+    this.playButton.className = 'replay-btn';
+    this.playButton.addEventListener('click', () => this.togglePlay());
+    this.container.appendChild(this.playButton);
+
+    this.stepButton = document.createElement('button');
+    this.stepButton.className = 'replay-btn';
+    this.stepButton.textContent = '⏭ خطوة';
+    this.stepButton.addEventListener('click', () => this.step());
+    this.container.appendChild(this.stepButton);
+
+    this.progressLabel = document.createElement('span');
+    this.progressLabel.className = 'replay-progress';
+    this.container.appendChild(this.progressLabel);
+
+    const closeButton = document.createElement('button');
+    closeButton.className = 'replay-btn replay-close';
+    closeButton.textContent = '✖';
+    closeButton.addEventListener('click', () => this.close());
+    this.container.appendChild(closeButton);
+
+    document.body.appendChild(this.container);
+    this.updateControls();
+  }
+
+  private updateControls(): void {
+    const { current, total } = this.replayer.getProgress();
+    this.progressLabel.textContent = `${current} / ${total}`;
+    this.playButton.textContent = this.isPlaying ? '⏸ إيقاف' : '▶ تشغيل';
+    this.playButton.disabled = this.replayer.isFinished();
+    this.stepButton.disabled = this.isPlaying || this.isStepping || this.replayer.isFinished();
+  }
+
+  /**
+   * Play / pause continuous playback
+   */
+  togglePlay(): void {
+    this.isPlaying = !this.isPlaying;
+    this.updateControls();
+    if (this.isPlaying) {
+      this.playLoop();
+    }
+  }
+
+  private async playLoop(): Promise<void> {
+    while (this.isPlaying && !this.isClosed && !this.replayer.isFinished()) {
+      await this.step();
+    }
+    this.isPlaying = false;
+    if (!this.isClosed) this.updateControls();
+  }
+
+  /**
+   * Apply a single logged action and animate it
+   */
+  async step(): Promise<void> {
+    if (this.isStepping || this.isClosed) return;
+    this.isStepping = true;
+    this.updateControls();
+
+    try {
+      const action = this.replayer.step();
+      if (action) {
+        await this.animate(action);
+      }
+    } catch (error) {
+      console.error('[Replay] Failed to replay action:', error);
+      this.isPlaying = false;
+    } finally {
+      this.isStepping = false;
+      if (!this.isClosed) this.updateControls();
+    }
+  }
+
+  /**
+   * Visualize one action on the board / HUD
+   */
+  private async animate(action: MatchAction): Promise<void> {
+    const gameState = this.replayer.getGameState();
+    const player = gameState.players[action.playerIndex];
+
+    switch (action.type) {
+      case 'rollOrder':
+        this.boardScene.showDiceAbovePlayer(player.id);
+        await this.boardScene.rollDice3D(player.id, action.value);
+        this.hud.showDiceRoll(action.value);
+        if (gameState.currentState !== 'TURN_ORDER') {
+          this.hud.showTurnOrder(gameState);
+        }
+        break;
+      case 'useItem':
+        if (action.item === ItemType.STEAL) {
+          this.hud.showTileMessage('steal', action.amount ?? 0);
+          await this.wait(1500);
+        }
+        break;
+      case 'rollDice':
+        this.boardScene.showDiceAbovePlayer(player.id);
+        await this.boardScene.rollDice3D(player.id, action.value);
+        this.hud.showDiceRoll(action.value);
+        break;
+      case 'movePawn': {
+        // The replayed movePawn already logged its pass-through effects - show them on their step
+        const passEffects = getPassEffects(gameState.actionLog, this.replayer.getProgress().current);
+        await this.boardScene.movePawn(player.id, action.path, gameState, (step) => {
+          const effects = passEffects.filter(effect => effect.step === step);
+          return effects.length > 0 ? this.hud.showPassEffects(effects) : undefined;
+        });
+        break;
+      }
+      case 'passTile':
+        // Shown during the movePawn animation
+        break;
+      case 'buyItem':
+        this.hud.showTileMessage('item_bought', ITEMS[action.item].price);
+        await this.wait(1500);
+        break;
+      case 'leaveShop':
+        break;
+      case 'resolveTile':
+        if (action.event) {
+          this.hud.showEventMessage(action.event);
+          await this.wait(1500);
+        } else if (action.warpTo !== undefined) {
+          this.hud.showTileMessage('warp', 0);
+          await this.wait(1500);
+        } else if (action.points !== null) {
+          this.hud.showTileMessage(action.tileType, action.points);
+          await this.wait(1500);
+        }
+        break;
+      case 'chooseOpponent':
+        if (action.tileType === TileType.SWAP) {
+          this.hud.showTileMessage('swapped', 0);
+          await this.wait(1500);
+        }
+        break;
+      case 'completeDuel':
+        this.hud.showDuelResult(gameState, action.results, action.amount);
+        await this.wait(1500);
+        break;
+      case 'completeMinigame':
+        this.hud.showMinigameResults(gameState, action.results, action.payouts);
+        await this.wait(1500);
+        break;
+      case 'endTurn':
+        break;
+      case 'roundMinigame':
+        this.hud.showRoundMinigame(minigameRegistry.get(action.minigameId)?.nameAr ?? action.minigameId);
+        await this.wait(1500);
+        break;
+      case 'completeRoundMinigame':
+        this.hud.showMinigameResults(gameState, action.results, action.payouts);
+        await this.wait(1500);
+        break;
+      case 'finalTurns':
+        await Promise.all([
+          this.hud.showFinalTurnsBanner(gameState),
+          this.boardScene.playFinalTurnsFlourish()
+        ]);
+        break;
+      case 'bonusAward':
+        this.hud.showBonusAward(gameState, action);
+        await this.wait(2000);
+        break;
+    }
+
+    this.syncBoard();
+  }
+
+  /**
+   * Push the replayed state to the HUD and board
+   */
+  private syncBoard(): void {
+    const gameState = this.replayer.getGameState();
+    this.hud.update(gameState);
+    this.boardScene.updateTiles(gameState);
+    this.boardScene.updatePawnPositions(gameState.players);
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Stop playback and remove the controls
+   */
+  close(): void {
+    this.isPlaying = false;
+    this.isClosed = true;
+    this.container.remove();
+    this.onClose();
+  }
+}
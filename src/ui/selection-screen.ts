@@ -1,8 +1,15 @@
-import { Player } from '../core/game-state';
+import { Player, assignTeams } from '../core/game-state';
 import { CharacterPreviewScene } from '../babylon/character-preview-scene';
+import { GameSnapshot, loadSavedGame } from '../core/save-game';
+import { TileType, TEAM_COLORS, TEAM_NAMES } from '../core/constants';
+import { BONUS_AWARDS, BONUS_AWARD_TYPES } from '../core/bonus-awards';
+import { CpuDifficulty, CPU_DIFFICULTIES, CPU_PROFILES } from '../core/cpu-player';
+import { GameRules, RulesPresetId, RULE_PRESETS, DEFAULT_RULES, cloneRules, validateGameRules } from '../core/game-rules';
 
 export interface GameConfig {
   players: Player[];
+  rules: GameRules;
+  resume?: GameSnapshot; // Set when continuing an autosaved match
 }
 
 const AVAILABLE_CHARACTERS = [
@@ -21,14 +28,38 @@ const AVAILABLE_CHARACTERS = [
 
 const PLAYER_COLORS = ['#FF6B35', '#4ECDC4', '#45B7D1', '#96CEB4'];
 
+const PRESET_OPTIONS: { id: RulesPresetId | 'custom'; label: string }[] = [
+  { id: 'quick', label: 'سريع' },
+  { id: 'standard', label: 'عادي' },
+  { id: 'marathon', label: 'ماراثون' },
+  { id: 'custom', label: 'مخصص' },
+];
+
+const TILE_COUNT_FIELDS: { type: TileType; label: string }[] = [
+  { type: TileType.GREEN, label: 'أخضر' },
+  { type: TileType.RED, label: 'أحمر' },
+  { type: TileType.YELLOW, label: 'أصفر' },
+  { type: TileType.BLUE, label: 'أزرق' },
+  { type: TileType.SHOP, label: 'متجر' },
+  { type: TileType.WARP, label: 'بوابة' },
+  { type: TileType.SWAP, label: 'تبادل' },
+  { type: TileType.BANK, label: 'بنك' },
+  { type: TileType.EVENT, label: 'حدث' },
+  { type: TileType.DUEL, label: 'مبارزة' },
+  { type: TileType.TOLL, label: 'رسوم عبور' },
+];
+
 export class SelectionScreen {
   private container: HTMLElement;
   private onStart: (config: GameConfig) => void;
   private players: Player[] = [];
   private playerCount: number = 2;
+  private teamMode: boolean = false; // 2v2 - four players in two teams sharing a pool
   private characterIndices: number[] = []; // Current character index per player
   private readyStates: boolean[] = []; // Ready status per player
+  private cpuSeats: (CpuDifficulty | null)[] = []; // CPU difficulty per seat (null = human)
   private previewScenes: CharacterPreviewScene[] = []; // 3D preview scenes per player
+  private rules: GameRules = cloneRules(DEFAULT_RULES);
 
   constructor(container: HTMLElement, onStart: (config: GameConfig) => void) {
     this.container = container;
@@ -49,6 +80,16 @@ export class SelectionScreen {
 
   private renderModeSelection(): void {
     this.clear();
+    const savedGame = loadSavedGame();
+    const continueHtml = savedGame ? `
+          <div class="continue-game">
+            <button class="continue-btn" id="continue-btn">
+              <span class="continue-icon">⏯</span>
+              <span class="continue-text">متابعة اللعبة السابقة</span>
+              <span class="continue-details">الدور ${savedGame.turn} · ${savedGame.players.length} لاعبين</span>
+            </button>
+          </div>` : '';
+
     this.container.innerHTML = `
       <div class="selection-screen" dir="rtl">
         <!-- Top Navigation Bar -->
@@ -92,7 +133,13 @@ export class SelectionScreen {
               <span class="count-num">4</span>
               <span class="count-label">لاعبين</span>
             </button>
+            <button class="count-btn" data-count="4" data-teams="true">
+              <span class="count-num">2v2</span>
+              <span class="count-label">فرق</span>
+            </button>
           </div>
+          ${this.renderRulesPanel()}
+          ${continueHtml}
         </div>
         
         <!-- Empty footer for visual balance -->
@@ -100,25 +147,216 @@ export class SelectionScreen {
       </div>
     `;
 
+    this.container.querySelectorAll('.preset-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const preset = (e.currentTarget as HTMLElement).dataset.preset as RulesPresetId | 'custom';
+        this.selectPreset(preset);
+      });
+    });
+
+    this.container.querySelectorAll('.rules-input').forEach(input => {
+      input.addEventListener('input', () => this.readCustomRules());
+    });
+    this.updateRulesValidation();
+
     this.container.querySelectorAll('.count-btn').forEach(btn => {
       btn.addEventListener('click', (e) => {
+        if (this.getRulesErrors().length > 0) return;
         this.playerCount = parseInt((e.currentTarget as HTMLElement).dataset.count || '2');
+        this.teamMode = (e.currentTarget as HTMLElement).dataset.teams === 'true';
         this.initializePlayers();
         this.renderCharacterSelection();
       });
     });
+
+    document.getElementById('continue-btn')?.addEventListener('click', () => {
+      if (savedGame) {
+        this.continueGame(savedGame);
+      }
+    });
+  }
+
+  /**
+   * Rules preset picker + custom rules form (hidden unless "custom" is selected)
+   */
+  private renderRulesPanel(): string {
+    const rules = this.rules;
+    const presetButtons = PRESET_OPTIONS.map(option => {
+      const turns = option.id === 'custom' ? '' : `<span class="preset-turns">${RULE_PRESETS[option.id].maxTurns} أدوار</span>`;
+      return `
+            <button class="preset-btn ${rules.preset === option.id ? 'is-selected' : ''}" data-preset="${option.id}">
+              <span class="preset-label">${option.label}</span>
+              ${turns}
+            </button>`;
+    }).join('');
+
+    const tileInputs = TILE_COUNT_FIELDS.map(field => `
+              <label class="rules-field">
+                <span>${field.label}</span>
+                <input class="rules-input" type="number" min="0" data-rule="tile-${field.type}" value="${rules.tileCounts[field.type]}">
+              </label>`).join('');
+
+    const awardInputs = BONUS_AWARD_TYPES.map(award => `
+                <label class="rules-field rules-award">
+                  <input class="rules-input" type="checkbox" data-award="${award}" ${rules.bonusAwards.includes(award) ? 'checked' : ''}>
+                  <span>${BONUS_AWARDS[award].icon} ${BONUS_AWARDS[award].name}</span>
+                </label>`).join('');
+
+    return `
+          <div class="rules-panel">
+            <div class="preset-options">${presetButtons}
+            </div>
+            <div class="custom-rules" ${rules.preset === 'custom' ? '' : 'hidden'}>
+              <div class="rules-row">
+                <label class="rules-field">
+                  <span>عدد الأدوار</span>
+                  <input class="rules-input" type="number" min="1" data-rule="maxTurns" value="${rules.maxTurns}">
+                </label>
+                <label class="rules-field">
+                  <span>عدد المربعات</span>
+                  <input class="rules-input" type="number" min="2" max="${DEFAULT_RULES.tileCount}" data-rule="tileCount" value="${rules.tileCount}">
+                </label>
+              </div>
+              <div class="rules-row">${tileInputs}
+              </div>
+              <div class="rules-row">
+                <label class="rules-field">
+                  <span>مكافأة الأخضر</span>
+                  <input class="rules-input" type="number" data-rule="green" value="${rules.rewards.green}">
+                </label>
+                <label class="rules-field">
+                  <span>خصم الأحمر</span>
+                  <input class="rules-input" type="number" data-rule="red" value="${rules.rewards.red}">
+                </label>
+                <label class="rules-field">
+                  <span>مكافآت الأصفر</span>
+                  <input class="rules-input" type="text" data-rule="yellowOptions" value="${rules.rewards.yellowOptions.join(', ')}">
+                </label>
+                <label class="rules-field">
+                  <span>الفوز بالتحدي</span>
+                  <input class="rules-input" type="number" data-rule="minigameWin" value="${rules.rewards.minigameWin}">
+                </label>
+                <label class="rules-field">
+                  <span>جوائز المراكز</span>
+                  <input class="rules-input" type="text" data-rule="minigamePlacements" value="${rules.rewards.minigamePlacements.join(', ')}">
+                </label>
+                <label class="rules-field">
+                  <span>سعر النجمة</span>
+                  <input class="rules-input" type="number" min="0" data-rule="starCost" value="${rules.starCost}">
+                </label>
+                <label class="rules-field">
+                  <span>رسوم البنك</span>
+                  <input class="rules-input" type="number" min="0" data-rule="bankFee" value="${rules.rewards.bankFee}">
+                </label>
+                <label class="rules-field">
+                  <span>رهان المبارزة</span>
+                  <input class="rules-input" type="number" min="0" data-rule="duelStake" value="${rules.rewards.duelStake}">
+                </label>
+                <label class="rules-field">
+                  <span>رسوم العبور</span>
+                  <input class="rules-input" type="number" min="0" data-rule="tollFee" value="${rules.rewards.tollFee}">
+                </label>
+                <label class="rules-field">
+                  <span>مكافأة اللفة</span>
+                  <input class="rules-input" type="number" min="0" data-rule="lapBonus" value="${rules.rewards.lapBonus}">
+                </label>
+              </div>
+              <div class="rules-row">${awardInputs}
+                <label class="rules-field">
+                  <span>نجوم الجائزة</span>
+                  <input class="rules-input" type="number" min="0" data-rule="bonusAwardStars" value="${rules.rewards.bonusAwardStars}">
+                </label>
+              </div>
+              <ul class="rules-errors"></ul>
+            </div>
+          </div>`;
+  }
+
+  private selectPreset(preset: RulesPresetId | 'custom'): void {
+    // Custom starts from whatever was selected before so only the differences need editing
+    this.rules = preset === 'custom'
+      ? { ...cloneRules(this.rules), preset: 'custom' }
+      : cloneRules(RULE_PRESETS[preset]);
+    this.renderModeSelection();
+  }
+
+  /**
+   * Read the custom rules form back into this.rules
+   */
+  private readCustomRules(): void {
+    const read = (rule: string): string => {
+      const input = this.container.querySelector(`[data-rule="${rule}"]`) as HTMLInputElement | null;
+      return input ? input.value : '';
+    };
+    const readNumber = (rule: string): number => read(rule).trim() === '' ? NaN : Number(read(rule));
+
+    const tileCounts = { ...this.rules.tileCounts };
+    TILE_COUNT_FIELDS.forEach(field => {
+      tileCounts[field.type] = readNumber(`tile-${field.type}`);
+    });
+
+    this.rules = {
+      preset: 'custom',
+      tileCount: readNumber('tileCount'),
+      maxTurns: readNumber('maxTurns'),
+      tileCounts,
+      starCost: readNumber('starCost'),
+      rewards: {
+        green: readNumber('green'),
+        red: readNumber('red'),
+        yellowOptions: read('yellowOptions').split(',').filter(v => v.trim() !== '').map(Number),
+        minigameWin: readNumber('minigameWin'),
+        minigamePlacements: read('minigamePlacements').split(',').filter(v => v.trim() !== '').map(Number),
+        bankFee: readNumber('bankFee'),
+        duelStake: readNumber('duelStake'),
+        tollFee: readNumber('tollFee'),
+        lapBonus: readNumber('lapBonus'),
+        bonusAwardStars: readNumber('bonusAwardStars')
+      },
+      bonusAwards: BONUS_AWARD_TYPES.filter(award =>
+        (this.container.querySelector(`[data-award="${award}"]`) as HTMLInputElement | null)?.checked
+      )
+    };
+    this.updateRulesValidation();
+  }
+
+  private getRulesErrors(): string[] {
+    const errors = validateGameRules(this.rules);
+    // The 3D board path only has room for the standard number of tiles
+    if (this.rules.tileCount > DEFAULT_RULES.tileCount) {
+      errors.push(`The board has room for at most ${DEFAULT_RULES.tileCount} tiles`);
+    }
+    return errors;
+  }
+
+  /**
+   * Show rule problems and block starting a game until they are fixed
+   */
+  private updateRulesValidation(): void {
+    const errors = this.getRulesErrors();
+
+    const errorList = this.container.querySelector('.rules-errors');
+    if (errorList) {
+      errorList.innerHTML = errors.map(error => `<li>${error}</li>`).join('');
+    }
+
+    this.container.querySelectorAll('.count-btn').forEach(btn => {
+      (btn as HTMLButtonElement).disabled = errors.length > 0;
+    });
   }
 
   private initializePlayers(): void {
     this.players = [];
     this.characterIndices = [];
     this.readyStates = [];
+    this.cpuSeats = [];
 
     for (let i = 0; i < this.playerCount; i++) {
       // Give each player a different starting character
       const startChar = i % AVAILABLE_CHARACTERS.length;
       this.characterIndices.push(startChar);
       this.readyStates.push(false);
+      this.cpuSeats.push(null);
 
       const char = AVAILABLE_CHARACTERS[startChar];
       this.players.push({
@@ -130,9 +368,17 @@ export class SelectionScreen {
         portrait: char.portrait,
         color: PLAYER_COLORS[i],
         pawnPosition: 0,
-        points: 0
+        coins: 0,
+        stars: 0,
+        laps: 0,
+        lapProgress: 0,
+        items: []
       });
     }
+
+    if (this.teamMode) {
+      assignTeams(this.players);
+    }
   }
 
   private renderCharacterSelection(): void {
@@ -152,6 +398,8 @@ export class SelectionScreen {
         <div class="player-card glass-card" style="--player-color: ${playerColor}">
           <div class="card-header">
             <span class="player-label">اللاعب ${i + 1}</span>
+            ${this.teamMode ? `<span class="team-tag" style="--team-color: ${TEAM_COLORS[this.players[i].teamId!]}">${TEAM_NAMES[this.players[i].teamId!]}</span>` : ''}
+            <button class="cpu-toggle ${this.cpuSeats[i] ? 'is-cpu' : ''}" data-player="${i}">${this.getSeatLabel(i)}</button>
           </div>
           
           <div class="card-content">
@@ -266,6 +514,13 @@ export class SelectionScreen {
       });
     });
 
+    this.container.querySelectorAll('.cpu-toggle').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const playerIdx = parseInt((e.currentTarget as HTMLElement).dataset.player || '0');
+        this.cycleSeat(playerIdx);
+      });
+    });
+
     this.container.querySelectorAll('.ready-btn').forEach(btn => {
       btn.addEventListener('click', (e) => {
         const playerIdx = parseInt((e.currentTarget as HTMLElement).dataset.player || '0');
@@ -348,6 +603,26 @@ export class SelectionScreen {
     }
   }
 
+  private getSeatLabel(playerIdx: number): string {
+    const difficulty = this.cpuSeats[playerIdx];
+    return difficulty ? `🤖 ${CPU_PROFILES[difficulty].label}` : '👤 لاعب';
+  }
+
+  /**
+   * Cycle a seat through human → CPU easy → normal → hard
+   */
+  private cycleSeat(playerIdx: number): void {
+    const current = this.cpuSeats[playerIdx];
+    const next = current === null ? 0 : CPU_DIFFICULTIES.indexOf(current) + 1;
+    this.cpuSeats[playerIdx] = CPU_DIFFICULTIES[next] ?? null;
+
+    const toggle = this.container.querySelectorAll('.cpu-toggle')[playerIdx];
+    if (toggle) {
+      toggle.className = `cpu-toggle ${this.cpuSeats[playerIdx] ? 'is-cpu' : ''}`;
+      toggle.textContent = this.getSeatLabel(playerIdx);
+    }
+  }
+
   private toggleReady(playerIdx: number): void {
     // Check for duplicate character when trying to ready
     if (!this.readyStates[playerIdx]) {
@@ -408,7 +683,20 @@ export class SelectionScreen {
   }
 
   private startGame(): void {
+    this.players.forEach((player, i) => {
+      const difficulty = this.cpuSeats[i];
+      if (difficulty) {
+        player.cpu = difficulty;
+      } else {
+        delete player.cpu;
+      }
+    });
+    this.clear();
+    this.onStart({ players: this.players, rules: this.rules });
+  }
+
+  private continueGame(snapshot: GameSnapshot): void {
     this.clear();
-    this.onStart({ players: this.players });
+    this.onStart({ players: snapshot.players, rules: snapshot.rules, resume: snapshot });
   }
 }
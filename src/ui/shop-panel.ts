@@ -0,0 +1,73 @@
+import { Player } from '../core/game-state';
+import { ItemType, ITEMS, MAX_ITEMS } from '../core/items';
+
+/**
+ * ShopPanel - item shop shown when a player lands on a shop tile
+ * Lists every item with its price; unaffordable items (or a full inventory) are disabled
+ */
+
+export class ShopPanel {
+  private container: HTMLElement;
+  private onBuy: (item: ItemType) => void;
+  private onLeave: () => void;
+
+  constructor(container: HTMLElement, onBuy: (item: ItemType) => void, onLeave: () => void) {
+    this.container = container;
+    this.onBuy = onBuy;
+    this.onLeave = onLeave;
+    this.container.className = 'shop-panel';
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * Show the shop for the given player
+   */
+  show(player: Player): void {
+    const inventoryFull = player.items.length >= MAX_ITEMS;
+
+    this.container.innerHTML = `
+      <div class="shop-content" dir="rtl">
+        <h2 class="shop-title">🛒 المتجر</h2>
+        <div class="shop-wallet">${player.coins} 🪙 · ${player.items.length} / ${MAX_ITEMS} أغراض</div>
+        <div class="shop-items">
+          ${(Object.keys(ITEMS) as ItemType[]).map(item => {
+            const definition = ITEMS[item];
+            const canBuy = !inventoryFull && player.coins >= definition.price;
+            return `
+              <button class="shop-item" data-item="${item}" ${canBuy ? '' : 'disabled'}>
+                <span class="shop-item-icon">${definition.icon}</span>
+                <span class="shop-item-name">${definition.name}</span>
+                <span class="shop-item-desc">${definition.description}</span>
+                <span class="shop-item-price">${definition.price} 🪙</span>
+              </button>
+            `;
+          }).join('')}
+        </div>
+        ${inventoryFull ? '<div class="shop-note">حقيبتك ممتلئة!</div>' : ''}
+        <button class="shop-leave" id="shop-leave-btn">مغادرة المتجر</button>
+      </div>
+    `;
+
+    this.container.querySelectorAll('.shop-item').forEach(button => {
+      button.addEventListener('click', (e) => {
+        const item = (e.currentTarget as HTMLElement).dataset.item as ItemType;
+        this.hide();
+        this.onBuy(item);
+      });
+    });
+
+    this.container.querySelector('#shop-leave-btn')?.addEventListener('click', () => {
+      this.hide();
+      this.onLeave();
+    });
+
+    this.container.style.display = 'flex';
+  }
+
+  /**
+   * Hide the shop
+   */
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+}